@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "JobRunStatus" AS ENUM ('RUNNING', 'SUCCESS', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "overdueAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Settings" ADD COLUMN     "timezone" TEXT NOT NULL DEFAULT 'Asia/Jakarta';
+
+-- CreateTable
+CREATE TABLE "JobRun" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "status" "JobRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "result" JSONB,
+    "error" TEXT,
+
+    CONSTRAINT "JobRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "JobRun_name_startedAt_idx" ON "JobRun"("name", "startedAt");
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "InvoiceReminder" ADD COLUMN     "occurrence" INTEGER,
+ADD COLUMN     "ruleId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ReminderRule" (
+    "id" TEXT NOT NULL,
+    "settingsId" TEXT NOT NULL,
+    "name" TEXT,
+    "offsetDays" INTEGER NOT NULL,
+    "repeatEveryDays" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReminderRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReminderRule_settingsId_idx" ON "ReminderRule"("settingsId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InvoiceReminder_invoiceId_ruleId_occurrence_key" ON "InvoiceReminder"("invoiceId", "ruleId", "occurrence");
+
+-- AddForeignKey
+ALTER TABLE "ReminderRule" ADD CONSTRAINT "ReminderRule_settingsId_fkey" FOREIGN KEY ("settingsId") REFERENCES "Settings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceReminder" ADD CONSTRAINT "InvoiceReminder_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "ReminderRule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "InvoicePaymentMethod" AS ENUM ('BANK_TRANSFER', 'CASH', 'E_WALLET', 'QRIS', 'CARD', 'OTHER');
+
+-- AlterEnum
+ALTER TYPE "InvoiceStatus" ADD VALUE 'PARTIALLY_PAID';
+
+-- CreateTable
+CREATE TABLE "InvoicePayment" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "method" "InvoicePaymentMethod" NOT NULL DEFAULT 'BANK_TRANSFER',
+    "reference" TEXT,
+    "proof" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InvoicePayment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InvoicePayment_invoiceId_idx" ON "InvoicePayment"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "InvoicePayment_date_idx" ON "InvoicePayment"("date");
+
+-- AddForeignKey
+ALTER TABLE "InvoicePayment" ADD CONSTRAINT "InvoicePayment_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: record a single full payment for invoices that are already paid
+INSERT INTO "InvoicePayment" ("id", "invoiceId", "amount", "date", "proof", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, "id", "total", COALESCE("paidAt", "updatedAt"), "paymentProof", CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "Invoice"
+WHERE "status" = 'PAID';
@@ -0,0 +1,68 @@
+-- CreateEnum
+CREATE TYPE "RecurringInterval" AS ENUM ('WEEKLY', 'MONTHLY', 'YEARLY');
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "recurringInvoiceId" TEXT;
+
+-- CreateTable
+CREATE TABLE "RecurringInvoice" (
+    "id" TEXT NOT NULL,
+    "name" TEXT,
+    "userId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "taxRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "notes" TEXT,
+    "interval" "RecurringInterval" NOT NULL,
+    "intervalCount" INTEGER NOT NULL DEFAULT 1,
+    "paymentTermDays" INTEGER NOT NULL DEFAULT 14,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "nextRunDate" TIMESTAMP(3),
+    "lastRunDate" TIMESTAMP(3),
+    "autoSend" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecurringInvoice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RecurringInvoiceItem" (
+    "id" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "recurringInvoiceId" TEXT NOT NULL,
+
+    CONSTRAINT "RecurringInvoiceItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RecurringInvoice_userId_idx" ON "RecurringInvoice"("userId");
+
+-- CreateIndex
+CREATE INDEX "RecurringInvoice_customerId_idx" ON "RecurringInvoice"("customerId");
+
+-- CreateIndex
+CREATE INDEX "RecurringInvoice_nextRunDate_idx" ON "RecurringInvoice"("nextRunDate");
+
+-- CreateIndex
+CREATE INDEX "RecurringInvoiceItem_recurringInvoiceId_idx" ON "RecurringInvoiceItem"("recurringInvoiceId");
+
+-- CreateIndex
+CREATE INDEX "Invoice_recurringInvoiceId_idx" ON "Invoice"("recurringInvoiceId");
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_recurringInvoiceId_fkey" FOREIGN KEY ("recurringInvoiceId") REFERENCES "RecurringInvoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringInvoice" ADD CONSTRAINT "RecurringInvoice_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringInvoice" ADD CONSTRAINT "RecurringInvoice_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringInvoiceItem" ADD CONSTRAINT "RecurringInvoiceItem_recurringInvoiceId_fkey" FOREIGN KEY ("recurringInvoiceId") REFERENCES "RecurringInvoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "taxRate" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Backfill the tax percentage from the stored amounts
+UPDATE "Invoice"
+SET "taxRate" = ROUND(("tax" / "subtotal" * 100)::numeric, 2)
+WHERE "subtotal" > 0;
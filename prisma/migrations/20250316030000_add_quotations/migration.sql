@@ -0,0 +1,85 @@
+-- CreateEnum
+CREATE TYPE "QuotationStatus" AS ENUM ('DRAFT', 'SENT', 'ACCEPTED', 'REJECTED', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "quotationId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Settings" ADD COLUMN     "quotationPrefix" TEXT,
+ADD COLUMN     "nextQuotationNumber" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "Quotation" (
+    "id" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "validUntil" TIMESTAMP(3) NOT NULL,
+    "status" "QuotationStatus" NOT NULL DEFAULT 'DRAFT',
+    "subtotal" DOUBLE PRECISION NOT NULL,
+    "taxRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "tax" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "total" DOUBLE PRECISION NOT NULL,
+    "notes" TEXT,
+    "publicToken" TEXT NOT NULL,
+    "sentAt" TIMESTAMP(3),
+    "acceptedAt" TIMESTAMP(3),
+    "rejectedAt" TIMESTAMP(3),
+    "rejectionReason" TEXT,
+    "expiredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+
+    CONSTRAINT "Quotation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "QuotationItem" (
+    "id" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "quotationId" TEXT NOT NULL,
+
+    CONSTRAINT "QuotationItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Quotation_publicToken_key" ON "Quotation"("publicToken");
+
+-- CreateIndex
+CREATE INDEX "Quotation_userId_idx" ON "Quotation"("userId");
+
+-- CreateIndex
+CREATE INDEX "Quotation_customerId_idx" ON "Quotation"("customerId");
+
+-- CreateIndex
+CREATE INDEX "Quotation_status_idx" ON "Quotation"("status");
+
+-- CreateIndex
+CREATE INDEX "Quotation_validUntil_idx" ON "Quotation"("validUntil");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Quotation_userId_number_key" ON "Quotation"("userId", "number");
+
+-- CreateIndex
+CREATE INDEX "QuotationItem_quotationId_idx" ON "QuotationItem"("quotationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_quotationId_key" ON "Invoice"("quotationId");
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_quotationId_fkey" FOREIGN KEY ("quotationId") REFERENCES "Quotation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Quotation" ADD CONSTRAINT "Quotation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Quotation" ADD CONSTRAINT "Quotation_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuotationItem" ADD CONSTRAINT "QuotationItem_quotationId_fkey" FOREIGN KEY ("quotationId") REFERENCES "Quotation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "InvoiceStatus" ADD VALUE 'DRAFT' BEFORE 'UNPAID';
+
+-- AlterTable
+ALTER TABLE "Invoice" ALTER COLUMN "number" DROP NOT NULL,
+ADD COLUMN     "finalizedAt" TIMESTAMP(3);
+
+-- Existing invoices were numbered when they were created
+UPDATE "Invoice" SET "finalizedAt" = "createdAt";
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "discountType" "DiscountType",
+ADD COLUMN     "discountValue" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "discount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "InvoiceItem" ADD COLUMN     "discountType" "DiscountType",
+ADD COLUMN     "discountValue" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "discount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "taxRate" DOUBLE PRECISION,
+ADD COLUMN     "taxExempt" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "tax" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Existing lines were taxed at the invoice rate
+UPDATE "InvoiceItem" AS i
+SET "tax" = i."amount" * inv."taxRate" / 100
+FROM "Invoice" AS inv
+WHERE inv."id" = i."invoiceId";
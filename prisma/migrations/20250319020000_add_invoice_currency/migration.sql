@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'IDR',
+ADD COLUMN     "exchangeRate" DOUBLE PRECISION NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "CreditNote" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'IDR',
+ADD COLUMN     "exchangeRate" DOUBLE PRECISION NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "RecurringInvoice" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'IDR';
+
+-- AlterTable
+ALTER TABLE "Settings" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'IDR';
+
+-- CreateTable
+CREATE TABLE "ExchangeRate" (
+    "id" TEXT NOT NULL,
+    "settingsId" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExchangeRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExchangeRate_settingsId_idx" ON "ExchangeRate"("settingsId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExchangeRate_settingsId_currency_date_key" ON "ExchangeRate"("settingsId", "currency", "date");
+
+-- AddForeignKey
+ALTER TABLE "ExchangeRate" ADD CONSTRAINT "ExchangeRate_settingsId_fkey" FOREIGN KEY ("settingsId") REFERENCES "Settings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
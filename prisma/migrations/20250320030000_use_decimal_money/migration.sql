@@ -0,0 +1,62 @@
+-- CreateEnum
+CREATE TYPE "TaxRounding" AS ENUM ('PER_LINE', 'PER_INVOICE');
+
+-- AlterTable
+ALTER TABLE "Invoice" ALTER COLUMN "subtotal" SET DATA TYPE DECIMAL(18,2),
+ALTER COLUMN "discountValue" SET DATA TYPE DECIMAL(18,2),
+ALTER COLUMN "discount" SET DATA TYPE DECIMAL(18,2),
+ALTER COLUMN "taxRate" SET DATA TYPE DECIMAL(5,2),
+ALTER COLUMN "tax" SET DATA TYPE DECIMAL(18,2),
+ALTER COLUMN "total" SET DATA TYPE DECIMAL(18,2),
+ALTER COLUMN "exchangeRate" SET DATA TYPE DECIMAL(18,6);
+
+-- AlterTable
+ALTER TABLE "InvoiceItem" ALTER COLUMN "price" SET DATA TYPE DECIMAL(18,2),
+ALTER COLUMN "discountValue" SET DATA TYPE DECIMAL(18,2),
+ALTER COLUMN "discount" SET DATA TYPE DECIMAL(18,2),
+ALTER COLUMN "amount" SET DATA TYPE DECIMAL(18,2),
+ALTER COLUMN "taxRate" SET DATA TYPE DECIMAL(5,2),
+ALTER COLUMN "tax" SET DATA TYPE DECIMAL(18,2);
+
+-- AlterTable
+ALTER TABLE "CreditNote" ALTER COLUMN "subtotal" SET DATA TYPE DECIMAL(18,2),
+ALTER COLUMN "taxRate" SET DATA TYPE DECIMAL(5,2),
+ALTER COLUMN "tax" SET DATA TYPE DECIMAL(18,2),
+ALTER COLUMN "total" SET DATA TYPE DECIMAL(18,2),
+ALTER COLUMN "exchangeRate" SET DATA TYPE DECIMAL(18,6);
+
+-- AlterTable
+ALTER TABLE "CreditNoteItem" ALTER COLUMN "price" SET DATA TYPE DECIMAL(18,2),
+ALTER COLUMN "amount" SET DATA TYPE DECIMAL(18,2);
+
+-- AlterTable
+ALTER TABLE "Quotation" ALTER COLUMN "subtotal" SET DATA TYPE DECIMAL(18,2),
+ALTER COLUMN "taxRate" SET DATA TYPE DECIMAL(5,2),
+ALTER COLUMN "tax" SET DATA TYPE DECIMAL(18,2),
+ALTER COLUMN "total" SET DATA TYPE DECIMAL(18,2);
+
+-- AlterTable
+ALTER TABLE "QuotationItem" ALTER COLUMN "price" SET DATA TYPE DECIMAL(18,2),
+ALTER COLUMN "amount" SET DATA TYPE DECIMAL(18,2);
+
+-- AlterTable
+ALTER TABLE "RecurringInvoice" ALTER COLUMN "taxRate" SET DATA TYPE DECIMAL(5,2);
+
+-- AlterTable
+ALTER TABLE "RecurringInvoiceItem" ALTER COLUMN "price" SET DATA TYPE DECIMAL(18,2);
+
+-- AlterTable
+ALTER TABLE "InvoicePayment" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(18,2);
+
+-- AlterTable
+ALTER TABLE "Payment" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(18,2);
+
+-- AlterTable
+ALTER TABLE "PromoCode" ALTER COLUMN "discountValue" SET DATA TYPE DECIMAL(18,2);
+
+-- AlterTable
+ALTER TABLE "Settings" ADD COLUMN     "taxRounding" "TaxRounding" NOT NULL DEFAULT 'PER_INVOICE',
+ALTER COLUMN "taxRate" SET DATA TYPE DECIMAL(5,2);
+
+-- AlterTable
+ALTER TABLE "ExchangeRate" ALTER COLUMN "rate" SET DATA TYPE DECIMAL(18,6);
@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "SequenceReset" AS ENUM ('NEVER', 'YEARLY', 'MONTHLY');
+
+-- AlterTable
+ALTER TABLE "Settings" ADD COLUMN     "invoiceNumberFormat" TEXT NOT NULL DEFAULT '{PREFIX}{SEQ:5}',
+ADD COLUMN     "invoiceNumberReset" "SequenceReset" NOT NULL DEFAULT 'NEVER',
+ADD COLUMN     "invoiceSequencePeriod" TEXT;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "firstViewedAt" TIMESTAMP(3),
+ADD COLUMN     "lastViewedAt" TIMESTAMP(3),
+ADD COLUMN     "shareToken" TEXT,
+ADD COLUMN     "viewCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_shareToken_key" ON "Invoice"("shareToken");
@@ -0,0 +1,31 @@
+-- AlterEnum
+ALTER TYPE "InvoiceStatus" ADD VALUE 'PENDING_VERIFICATION';
+
+-- CreateEnum
+CREATE TYPE "PaymentProofStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "PaymentProofSubmission" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "amount" DECIMAL(18,2),
+    "note" TEXT,
+    "status" "PaymentProofStatus" NOT NULL DEFAULT 'PENDING',
+    "previousStatus" "InvoiceStatus" NOT NULL,
+    "rejectionReason" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaymentProofSubmission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PaymentProofSubmission_invoiceId_idx" ON "PaymentProofSubmission"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "PaymentProofSubmission_status_idx" ON "PaymentProofSubmission"("status");
+
+-- AddForeignKey
+ALTER TABLE "PaymentProofSubmission" ADD CONSTRAINT "PaymentProofSubmission_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- AlterEnum
+ALTER TYPE "InvoicePaymentMethod" ADD VALUE 'ONLINE';
+
+-- AlterTable
+ALTER TABLE "Settings" ADD COLUMN     "midtransClientKey" TEXT,
+ADD COLUMN     "midtransIsProduction" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "midtransServerKey" TEXT;
+
+-- CreateTable
+CREATE TABLE "InvoiceOnlinePayment" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "status" "PaymentStatus" NOT NULL DEFAULT 'PENDING',
+    "snapToken" TEXT,
+    "redirectUrl" TEXT,
+    "gatewayReference" TEXT,
+    "paymentType" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InvoiceOnlinePayment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InvoiceOnlinePayment_invoiceId_idx" ON "InvoiceOnlinePayment"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "InvoiceOnlinePayment_status_idx" ON "InvoiceOnlinePayment"("status");
+
+-- AddForeignKey
+ALTER TABLE "InvoiceOnlinePayment" ADD CONSTRAINT "InvoiceOnlinePayment_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "InvoiceActivityType" AS ENUM ('CREATED', 'UPDATED', 'FINALIZED', 'SENT', 'REMINDED', 'VIEWED', 'SHARED', 'SHARE_REVOKED', 'PDF_GENERATED', 'PROOF_UPLOADED', 'PROOF_APPROVED', 'PROOF_REJECTED', 'PAYMENT_RECORDED', 'PAYMENT_DELETED', 'STATUS_CHANGED', 'PAID', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "ActivityActor" AS ENUM ('USER', 'CUSTOMER', 'SYSTEM');
+
+-- CreateTable
+CREATE TABLE "InvoiceActivity" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "type" "InvoiceActivityType" NOT NULL,
+    "actor" "ActivityActor" NOT NULL,
+    "userId" TEXT,
+    "changes" JSONB,
+    "details" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InvoiceActivity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InvoiceActivity_invoiceId_createdAt_idx" ON "InvoiceActivity"("invoiceId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "InvoiceActivity" ADD CONSTRAINT "InvoiceActivity_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceActivity" ADD CONSTRAINT "InvoiceActivity_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "PdfTemplate" AS ENUM ('CLASSIC', 'MODERN', 'COMPACT', 'THERMAL');
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "pdfTemplate" "PdfTemplate";
+
+-- AlterTable
+ALTER TABLE "Settings" ADD COLUMN     "brandColor" TEXT,
+ADD COLUMN     "brandFont" TEXT,
+ADD COLUMN     "pdfFooterText" TEXT,
+ADD COLUMN     "pdfHiddenFields" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "pdfTemplate" "PdfTemplate" NOT NULL DEFAULT 'CLASSIC';
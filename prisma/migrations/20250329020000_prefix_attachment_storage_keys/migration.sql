@@ -0,0 +1,3 @@
+-- Storage keys of Cloudinary files carry their resource type
+UPDATE "InvoiceAttachment"
+SET "storageKey" = CASE WHEN "mimeType" = 'application/pdf' THEN 'raw/' ELSE 'image/' END || "storageKey";
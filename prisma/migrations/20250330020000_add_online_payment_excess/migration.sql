@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "InvoiceOnlinePayment" ADD COLUMN     "excessAmount" DECIMAL(18,2);
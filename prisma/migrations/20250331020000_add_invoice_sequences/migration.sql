@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "InvoiceSequence" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "period" TEXT NOT NULL,
+    "nextNumber" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InvoiceSequence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InvoiceSequence_userId_period_key" ON "InvoiceSequence"("userId", "period");
+
+-- AddForeignKey
+ALTER TABLE "InvoiceSequence" ADD CONSTRAINT "InvoiceSequence_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Carry over the counter of the period that was running
+INSERT INTO "InvoiceSequence" ("id", "userId", "period", "nextNumber")
+SELECT gen_random_uuid()::text, "userId", "invoiceSequencePeriod", "nextInvoiceNumber"
+FROM "Settings"
+WHERE "invoiceSequencePeriod" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Settings" DROP COLUMN "invoiceSequencePeriod";
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "sharedPdfHash" TEXT,
+ADD COLUMN     "sharedPdfUrl" TEXT;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Quotation" ADD COLUMN     "discountType" "DiscountType",
+ADD COLUMN     "discountValue" DECIMAL(18,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "discount" DECIMAL(18,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "QuotationItem" ADD COLUMN     "discountType" "DiscountType",
+ADD COLUMN     "discountValue" DECIMAL(18,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "discount" DECIMAL(18,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "taxRate" DECIMAL(5,2),
+ADD COLUMN     "taxExempt" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "tax" DECIMAL(18,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "RecurringInvoice" ADD COLUMN     "discountType" "DiscountType",
+ADD COLUMN     "discountValue" DECIMAL(18,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "RecurringInvoiceItem" ADD COLUMN     "discountType" "DiscountType",
+ADD COLUMN     "discountValue" DECIMAL(18,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "taxRate" DECIMAL(5,2),
+ADD COLUMN     "taxExempt" BOOLEAN NOT NULL DEFAULT false;
+
+-- Existing quotation lines were taxed at the quotation rate
+UPDATE "QuotationItem" AS i
+SET "tax" = ROUND(i."amount" * q."taxRate" / 100, 2)
+FROM "Quotation" AS q
+WHERE q."id" = i."quotationId";
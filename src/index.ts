@@ -8,8 +8,16 @@ import { userRouter } from "./routes/user";
 import { settingRouter } from "./routes/settings";
 import { errorHandler } from "./middleware/errorHandler";
 import { logger } from "./utils/logger";
+import { decimalReplacer } from "./utils/money";
 import { paymentRouter } from "./routes/payment";
 import { customerRouter } from "./routes/customer";
+import { jobRouter } from "./routes/jobs";
+import { recurringInvoiceRouter } from "./routes/recurringInvoice";
+import { creditNoteRouter } from "./routes/creditNote";
+import { quotationRouter } from "./routes/quotation";
+import { publicRouter } from "./routes/public";
+import { fileRouter } from "./routes/files";
+import { startScheduler } from "./jobs";
 // Load environment variables
 dotenv.config();
 
@@ -23,6 +31,8 @@ app.use(
   })
 );
 app.use(express.json());
+// Money columns are Decimal; send them to clients as numbers
+app.set("json replacer", decimalReplacer);
 app.use(morgan("dev"));
 
 // Routes
@@ -32,6 +42,12 @@ app.use("/users", userRouter);
 app.use("/settings", settingRouter);
 app.use("/payments", paymentRouter);
 app.use("/customers", customerRouter);
+app.use("/recurring-invoices", recurringInvoiceRouter);
+app.use("/credit-notes", creditNoteRouter);
+app.use("/quotations", quotationRouter);
+app.use("/public", publicRouter);
+app.use("/files", fileRouter);
+app.use("/jobs", jobRouter);
 
 // Error handling
 app.use(errorHandler);
@@ -39,4 +55,5 @@ app.use(errorHandler);
 // Start server
 app.listen(port, () => {
   logger.info(`Server is running on port ${port}`);
+  startScheduler();
 });
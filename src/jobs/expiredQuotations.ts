@@ -0,0 +1,53 @@
+import { isQuotationExpired } from "../services/quotation";
+import { prisma } from "../utils/prisma";
+import { DEFAULT_TIMEZONE } from "../utils/timezone";
+
+export const EXPIRED_QUOTATIONS_JOB = "expired-quotations";
+
+// Move sent quotations past their validity date in the business's time zone
+// to EXPIRED so they can no longer be accepted.
+export async function markExpiredQuotations(now: Date = new Date()) {
+  const candidates = await prisma.quotation.findMany({
+    where: {
+      status: "SENT",
+      validUntil: { lt: now },
+    },
+    select: {
+      id: true,
+      number: true,
+      validUntil: true,
+      user: {
+        select: {
+          settings: {
+            select: { timezone: true },
+          },
+        },
+      },
+    },
+  });
+
+  const expired: string[] = [];
+
+  for (const quotation of candidates) {
+    const timeZone = quotation.user.settings?.timezone || DEFAULT_TIMEZONE;
+    if (!isQuotationExpired(quotation, timeZone, now)) {
+      continue;
+    }
+
+    // Guard on status so an answer given meanwhile is not overwritten
+    const { count } = await prisma.quotation.updateMany({
+      where: { id: quotation.id, status: "SENT" },
+      data: { status: "EXPIRED", expiredAt: now },
+    });
+
+    if (count > 0) {
+      expired.push(quotation.number);
+    }
+  }
+
+  return {
+    checked: candidates.length,
+    expired: expired.length,
+    quotations: expired,
+  };
+}
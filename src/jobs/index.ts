@@ -0,0 +1,46 @@
+import {
+  EXPIRED_QUOTATIONS_JOB,
+  markExpiredQuotations,
+} from "./expiredQuotations";
+import {
+  INVOICE_REMINDERS_JOB,
+  sendAutomaticReminders,
+} from "./invoiceReminders";
+import { markOverdueInvoices, OVERDUE_INVOICES_JOB } from "./overdueInvoices";
+import {
+  generateDueRecurringInvoices,
+  RECURRING_INVOICES_JOB,
+} from "./recurringInvoices";
+import { registerJob } from "./scheduler";
+
+// Hourly by default so every business time zone is picked up shortly after
+// its local midnight
+registerJob({
+  name: OVERDUE_INVOICES_JOB,
+  description: "Tandai faktur yang melewati jatuh tempo sebagai OVERDUE",
+  schedule: process.env.OVERDUE_INVOICES_CRON || "5 * * * *",
+  handler: () => markOverdueInvoices(),
+});
+
+registerJob({
+  name: INVOICE_REMINDERS_JOB,
+  description: "Kirim pengingat pembayaran otomatis sesuai aturan pengingat",
+  schedule: process.env.INVOICE_REMINDERS_CRON || "0 8 * * *",
+  handler: () => sendAutomaticReminders(),
+});
+
+registerJob({
+  name: RECURRING_INVOICES_JOB,
+  description: "Buat faktur dari profil faktur berulang yang sudah jadwalnya",
+  schedule: process.env.RECURRING_INVOICES_CRON || "0 6 * * *",
+  handler: () => generateDueRecurringInvoices(),
+});
+
+registerJob({
+  name: EXPIRED_QUOTATIONS_JOB,
+  description: "Tandai penawaran yang melewati masa berlaku sebagai EXPIRED",
+  schedule: process.env.EXPIRED_QUOTATIONS_CRON || "10 * * * *",
+  handler: () => markExpiredQuotations(),
+});
+
+export { startScheduler } from "./scheduler";
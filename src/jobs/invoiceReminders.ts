@@ -0,0 +1,172 @@
+import { ReminderRule } from "@prisma/client";
+import { recordInvoiceActivity, SYSTEM } from "../services/invoiceActivity";
+import { getInvoicePaymentOptions } from "../services/invoiceOnlinePayment";
+import { sendReminderEmail } from "../utils/email";
+import { logger } from "../utils/logger";
+import { prisma } from "../utils/prisma";
+import { calendarDaysBetween, DEFAULT_TIMEZONE } from "../utils/timezone";
+
+export const INVOICE_REMINDERS_JOB = "invoice-reminders";
+
+// A one-off rule is still sent if the job missed its exact day (e.g. the
+// server was down), but not once the reminder has become stale
+const CATCH_UP_DAYS = 3;
+
+const businessSelect = {
+  businessName: true,
+  businessEmail: true,
+  businessPhone: true,
+  businessAddress: true,
+  businessLogo: true,
+};
+
+/**
+ * Determines which occurrence of a rule is due for an invoice
+ * @param rule The reminder rule
+ * @param daysFromDue Calendar days since the due date (negative before it)
+ * @returns The occurrence index, or null if the rule should not fire
+ */
+export function getRuleOccurrence(
+  rule: Pick<ReminderRule, "offsetDays" | "repeatEveryDays">,
+  daysFromDue: number
+): number | null {
+  const elapsed = daysFromDue - rule.offsetDays;
+  if (elapsed < 0) {
+    return null;
+  }
+
+  if (!rule.repeatEveryDays) {
+    return elapsed < CATCH_UP_DAYS ? 0 : null;
+  }
+
+  return Math.floor(elapsed / rule.repeatEveryDays);
+}
+
+// Evaluate every active reminder rule against the business's open invoices
+// and email the customer. Each (invoice, rule, occurrence) is sent once;
+// failed attempts are retried on the next run.
+export async function sendAutomaticReminders(now: Date = new Date()) {
+  const rules = await prisma.reminderRule.findMany({
+    where: { isActive: true },
+    include: {
+      settings: {
+        select: { userId: true, timezone: true },
+      },
+    },
+    orderBy: { offsetDays: "asc" },
+  });
+
+  const rulesByUser = new Map<string, typeof rules>();
+  for (const rule of rules) {
+    const userRules = rulesByUser.get(rule.settings.userId) || [];
+    userRules.push(rule);
+    rulesByUser.set(rule.settings.userId, userRules);
+  }
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const [userId, userRules] of rulesByUser) {
+    const timeZone = userRules[0].settings.timezone || DEFAULT_TIMEZONE;
+
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        userId,
+        status: { in: ["UNPAID", "PARTIALLY_PAID", "OVERDUE"] },
+        customer: { email: { not: null } },
+      },
+      include: {
+        customer: true,
+        items: true,
+        payments: true,
+        user: {
+          select: businessSelect,
+        },
+      },
+    });
+
+    for (const invoice of invoices) {
+      const daysFromDue = calendarDaysBetween(invoice.dueDate, now, timeZone);
+
+      for (const rule of userRules) {
+        const occurrence = getRuleOccurrence(rule, daysFromDue);
+        if (occurrence === null) {
+          continue;
+        }
+
+        const existing = await prisma.invoiceReminder.findUnique({
+          where: {
+            invoiceId_ruleId_occurrence: {
+              invoiceId: invoice.id,
+              ruleId: rule.id,
+              occurrence,
+            },
+          },
+        });
+
+        if (existing?.status === "SENT") {
+          continue;
+        }
+
+        let status: "SENT" | "FAILED" = "SENT";
+        let notes = rule.name
+          ? `Pengingat otomatis: ${rule.name}`
+          : "Pengingat otomatis dikirim via email";
+
+        try {
+          await sendReminderEmail(
+            invoice,
+            await getInvoicePaymentOptions(invoice),
+            timeZone
+          );
+          sent++;
+        } catch (error) {
+          logger.error(
+            `Failed to send automatic reminder for invoice ${invoice.number}:`,
+            error
+          );
+          status = "FAILED";
+          notes = error instanceof Error ? error.message : String(error);
+          failed++;
+        }
+
+        if (status === "SENT") {
+          await recordInvoiceActivity(invoice.id, {
+            type: "REMINDED",
+            author: SYSTEM,
+            details: { ruleId: rule.id, ruleName: rule.name },
+          });
+        }
+
+        if (existing) {
+          await prisma.invoiceReminder.update({
+            where: { id: existing.id },
+            data: { status, notes, sentAt: new Date() },
+          });
+        } else {
+          await prisma.invoiceReminder.create({
+            data: {
+              invoiceId: invoice.id,
+              ruleId: rule.id,
+              occurrence,
+              type: "AUTOMATIC",
+              channel: "EMAIL",
+              status,
+              notes,
+            },
+          });
+        }
+
+        // One automatic reminder per invoice per run, even if several
+        // rules match on the same day
+        break;
+      }
+    }
+  }
+
+  return {
+    rules: rules.length,
+    sent,
+    failed,
+  };
+}
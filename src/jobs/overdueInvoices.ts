@@ -0,0 +1,77 @@
+import { recordInvoiceActivity, SYSTEM } from "../services/invoiceActivity";
+import { prisma } from "../utils/prisma";
+import { DEFAULT_TIMEZONE, toDateKey } from "../utils/timezone";
+
+export const OVERDUE_INVOICES_JOB = "overdue-invoices";
+
+type OverdueTransition = {
+  invoiceId: string;
+  number: string | null;
+  userId: string;
+  dueDate: string;
+};
+
+// Move unpaid and partially paid invoices whose due date has passed in the business's time zone
+// to OVERDUE. An invoice due on 10 March becomes overdue on 11 March local time.
+export async function markOverdueInvoices(now: Date = new Date()) {
+  // Anything overdue locally must also have a due date before now, so this
+  // narrows the candidates before the per-business time zone check.
+  const candidates = await prisma.invoice.findMany({
+    where: {
+      status: { in: ["UNPAID", "PARTIALLY_PAID"] },
+      dueDate: { lt: now },
+    },
+    select: {
+      id: true,
+      number: true,
+      status: true,
+      dueDate: true,
+      userId: true,
+      user: {
+        select: {
+          settings: {
+            select: { timezone: true },
+          },
+        },
+      },
+    },
+  });
+
+  const transitions: OverdueTransition[] = [];
+
+  for (const invoice of candidates) {
+    const timeZone = invoice.user.settings?.timezone || DEFAULT_TIMEZONE;
+    if (toDateKey(now, timeZone) <= toDateKey(invoice.dueDate, timeZone)) {
+      continue;
+    }
+
+    // Guard on status so a payment recorded meanwhile is not overwritten
+    const { count } = await prisma.invoice.updateMany({
+      where: {
+        id: invoice.id,
+        status: { in: ["UNPAID", "PARTIALLY_PAID"] },
+      },
+      data: { status: "OVERDUE", overdueAt: now },
+    });
+
+    if (count > 0) {
+      await recordInvoiceActivity(invoice.id, {
+        type: "STATUS_CHANGED",
+        author: SYSTEM,
+        changes: { status: { from: invoice.status, to: "OVERDUE" } },
+      });
+      transitions.push({
+        invoiceId: invoice.id,
+        number: invoice.number,
+        userId: invoice.userId,
+        dueDate: invoice.dueDate.toISOString(),
+      });
+    }
+  }
+
+  return {
+    checked: candidates.length,
+    transitioned: transitions.length,
+    invoices: transitions,
+  };
+}
@@ -0,0 +1,61 @@
+import { generateRecurringInvoice } from "../services/recurringInvoice";
+import { logger } from "../utils/logger";
+import { prisma } from "../utils/prisma";
+
+export const RECURRING_INVOICES_JOB = "recurring-invoices";
+
+// Limit catch-up after a long outage so a weekly profile cannot flood a
+// customer with dozens of invoices in one run
+const MAX_RUNS_PER_PROFILE = 12;
+
+// Generate invoices for every active recurring profile whose next run date
+// has been reached, including runs missed while the server was down
+export async function generateDueRecurringInvoices(now: Date = new Date()) {
+  const profiles = await prisma.recurringInvoice.findMany({
+    where: {
+      isActive: true,
+      nextRunDate: { lte: now },
+    },
+    select: { id: true },
+  });
+
+  const generated: { recurringInvoiceId: string; invoiceId: string }[] = [];
+  let failed = 0;
+
+  for (const profile of profiles) {
+    try {
+      for (let run = 0; run < MAX_RUNS_PER_PROFILE; run++) {
+        const invoice = await generateRecurringInvoice(profile.id);
+        if (!invoice) {
+          break;
+        }
+
+        generated.push({
+          recurringInvoiceId: profile.id,
+          invoiceId: invoice.id,
+        });
+
+        const next = await prisma.recurringInvoice.findUnique({
+          where: { id: profile.id },
+          select: { nextRunDate: true },
+        });
+        if (!next?.nextRunDate || next.nextRunDate > now) {
+          break;
+        }
+      }
+    } catch (error) {
+      logger.error(
+        `Failed to generate recurring invoice ${profile.id}:`,
+        error
+      );
+      failed++;
+    }
+  }
+
+  return {
+    profiles: profiles.length,
+    generated: generated.length,
+    failed,
+    invoices: generated,
+  };
+}
@@ -0,0 +1,107 @@
+import { JobRun, Prisma } from "@prisma/client";
+import cron from "node-cron";
+import { logger } from "../utils/logger";
+import { prisma } from "../utils/prisma";
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  // Cron expression, evaluated in SCHEDULER_TIMEZONE
+  schedule: string;
+  // Returns a JSON summary that is stored on the job run
+  handler: () => Promise<Prisma.InputJsonValue>;
+}
+
+const SCHEDULER_TIMEZONE = process.env.SCHEDULER_TIMEZONE || "Asia/Jakarta";
+
+const jobs = new Map<string, JobDefinition>();
+const runningJobs = new Set<string>();
+
+export function registerJob(job: JobDefinition): void {
+  if (!cron.validate(job.schedule)) {
+    throw new Error(
+      `Invalid cron expression for job ${job.name}: ${job.schedule}`
+    );
+  }
+
+  jobs.set(job.name, job);
+}
+
+export function getJob(name: string): JobDefinition | undefined {
+  return jobs.get(name);
+}
+
+export function getJobs(): JobDefinition[] {
+  return Array.from(jobs.values());
+}
+
+export function isJobRunning(name: string): boolean {
+  return runningJobs.has(name);
+}
+
+// Run a job once and record the outcome. Returns null when the job is
+// already running, so overlapping ticks never process the same rows twice.
+export async function runJob(name: string): Promise<JobRun | null> {
+  const job = jobs.get(name);
+  if (!job) {
+    throw new Error(`Unknown job: ${name}`);
+  }
+
+  if (runningJobs.has(name)) {
+    logger.warn(`Job ${name} is still running, skipping this run`);
+    return null;
+  }
+
+  runningJobs.add(name);
+  let run: JobRun;
+  try {
+    run = await prisma.jobRun.create({ data: { name } });
+  } catch (error) {
+    // Not marked as running forever when the run cannot be recorded
+    runningJobs.delete(name);
+    throw error;
+  }
+
+  try {
+    const result = await job.handler();
+    logger.info(`Job ${name} finished`, { result });
+
+    return await prisma.jobRun.update({
+      where: { id: run.id },
+      data: { status: "SUCCESS", finishedAt: new Date(), result },
+    });
+  } catch (error) {
+    logger.error(`Job ${name} failed:`, error);
+
+    return await prisma.jobRun.update({
+      where: { id: run.id },
+      data: {
+        status: "FAILED",
+        finishedAt: new Date(),
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+  } finally {
+    runningJobs.delete(name);
+  }
+}
+
+export function startScheduler(): void {
+  if (process.env.SCHEDULER_ENABLED === "false") {
+    logger.info("Scheduler is disabled");
+    return;
+  }
+
+  for (const job of jobs.values()) {
+    cron.schedule(
+      job.schedule,
+      () => {
+        runJob(job.name).catch((error) =>
+          logger.error(`Could not run job ${job.name}:`, error)
+        );
+      },
+      { name: job.name, timezone: SCHEDULER_TIMEZONE }
+    );
+    logger.info(`Scheduled job ${job.name} (${job.schedule})`);
+  }
+}
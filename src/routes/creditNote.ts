@@ -0,0 +1,190 @@
+import { Router } from "express";
+import { z } from "zod";
+import { authenticate } from "../middleware/auth";
+import { AppError } from "../middleware/errorHandler";
+import { createCreditNote } from "../services/creditNote";
+import { sendCreditNoteEmail } from "../utils/email";
+import { generateCreditNotePDF } from "../utils/pdf";
+import { prisma } from "../utils/prisma";
+
+const router = Router();
+
+const createCreditNoteSchema = z.object({
+  invoiceId: z.string(),
+  date: z.coerce.date().optional(),
+  reason: z.string().nullable().optional(),
+  items: z
+    .array(
+      z.object({
+        invoiceItemId: z.string(),
+        quantity: z.number().int().positive(),
+      })
+    )
+    .min(1, "Minimal satu item")
+    .optional(),
+});
+
+const getCreditNotesQuerySchema = z.object({
+  page: z.string().transform(Number).default("1"),
+  limit: z.string().transform(Number).default("10"),
+  invoiceId: z.string().optional(),
+});
+
+const businessSelect = {
+  businessName: true,
+  businessEmail: true,
+  businessPhone: true,
+  businessAddress: true,
+  businessLogo: true,
+};
+
+router.use(authenticate);
+
+// Load a credit note with everything needed to print or email it
+async function findPrintableCreditNote(id: string, userId: string) {
+  const creditNote = await prisma.creditNote.findFirst({
+    where: { id, userId },
+    include: {
+      items: true,
+      user: {
+        select: businessSelect,
+      },
+      invoice: {
+        select: {
+          number: true,
+          date: true,
+          customer: true,
+        },
+      },
+    },
+  });
+
+  if (!creditNote) {
+    throw new AppError(404, "Nota kredit tidak ditemukan");
+  }
+
+  return { ...creditNote, customer: creditNote.invoice.customer };
+}
+
+// Get all credit notes
+router.get("/", async (req, res, next) => {
+  try {
+    const { page, limit, invoiceId } = getCreditNotesQuerySchema.parse(
+      req.query
+    );
+    const where = {
+      userId: (req as any).user.id,
+      invoiceId,
+    };
+
+    const [total, creditNotes] = await Promise.all([
+      prisma.creditNote.count({ where }),
+      prisma.creditNote.findMany({
+        where,
+        include: {
+          invoice: {
+            select: {
+              id: true,
+              number: true,
+              customer: true,
+            },
+          },
+        },
+        orderBy: { date: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+    ]);
+
+    res.json({
+      status: "success",
+      data: {
+        creditNotes,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get single credit note
+router.get("/:id", async (req, res, next) => {
+  try {
+    const creditNote = await findPrintableCreditNote(
+      req.params.id,
+      (req as any).user.id
+    );
+
+    res.json({
+      status: "success",
+      data: creditNote,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create credit note against a paid or cancelled invoice
+router.post("/", async (req, res, next) => {
+  try {
+    const data = createCreditNoteSchema.parse(req.body);
+    const creditNote = await createCreditNote((req as any).user.id, data);
+
+    res.json({
+      status: "success",
+      data: creditNote,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Generate credit note PDF
+router.post("/:id/print", async (req, res, next) => {
+  try {
+    const creditNote = await findPrintableCreditNote(
+      req.params.id,
+      (req as any).user.id
+    );
+    const url = await generateCreditNotePDF(creditNote);
+
+    res.json({
+      success: true,
+      url,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Send credit note to the customer with the PDF attached
+router.post("/:id/send", async (req, res, next) => {
+  try {
+    const creditNote = await findPrintableCreditNote(
+      req.params.id,
+      (req as any).user.id
+    );
+
+    if (!creditNote.customer.email) {
+      throw new AppError(400, "Pelanggan tidak memiliki alamat email");
+    }
+
+    const pdfUrl = await generateCreditNotePDF(creditNote);
+    await sendCreditNoteEmail(creditNote, pdfUrl);
+
+    res.json({
+      status: "success",
+      message: "Credit note sent successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export const creditNoteRouter = router;
@@ -4,6 +4,13 @@ import { authenticate } from "../middleware/auth";
 import { AppError } from "../middleware/errorHandler";
 import { AuthenticatedRequest } from "../types/express";
 import { prisma } from "../utils/prisma";
+import { importUpload, parseMultipartJson } from "../utils/upload";
+import { findCustomersByEmail } from "../services/customer";
+import { exportCustomers } from "../services/customerExport";
+import {
+  CUSTOMER_IMPORT_FIELDS,
+  importCustomers,
+} from "../services/customerImport";
 
 const router = Router();
 
@@ -26,6 +33,22 @@ const getCustomersQuerySchema = z.object({
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
 });
 
+const importCustomersSchema = z.object({
+  // Validate and report only, send "false" to save the customers
+  dryRun: z
+    .enum(["true", "false"])
+    .default("true")
+    .transform((val) => val === "true"),
+  // Rows with the email of an existing customer are skipped, update it or
+  // are added as a new customer
+  onDuplicate: z.enum(["SKIP", "UPDATE", "CREATE"]).default("SKIP"),
+  // JSON object of field name to the header used for it in a CSV file
+  mapping: z.preprocess(
+    parseMultipartJson,
+    z.record(z.enum(CUSTOMER_IMPORT_FIELDS), z.string()).optional()
+  ),
+});
+
 router.use(authenticate);
 
 // Get all customers with pagination and search
@@ -90,6 +113,24 @@ router.get("/", async (req: AuthenticatedRequest, res: Response, next: NextFunct
   }
 });
 
+// Export all customers with invoice counts and outstanding balances as CSV
+router.get("/export", async (req, res, next) => {
+  try {
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", 'attachment; filename="pelanggan.csv"');
+
+    await exportCustomers(res, (req as any).user.id);
+  } catch (error) {
+    // Once the download has started the only signal left is a broken stream
+    if (res.headersSent) {
+      console.error("Error exporting customers:", error);
+      res.destroy(error as Error);
+      return;
+    }
+    next(error);
+  }
+});
+
 // Get single customer
 router.get("/:id", async (req, res, next) => {
   try {
@@ -134,12 +175,7 @@ router.post("/", async (req, res, next) => {
 
     // Check if customer with same email already exists for this user
     if (data.email) {
-      const existingCustomer = await prisma.customer.findFirst({
-        where: {
-          userId,
-          email: data.email,
-        },
-      });
+      const [existingCustomer] = await findCustomersByEmail(userId, [data.email]);
 
       if (existingCustomer) {
         throw new AppError(400, "Pelanggan dengan email ini sudah terdaftar");
@@ -162,6 +198,30 @@ router.post("/", async (req, res, next) => {
   }
 });
 
+// Import customers from a CSV or vCard file, as a dry run unless asked to save
+router.post("/import", importUpload(["csv", "vcf"]).single("file"), async (req, res, next) => {
+  try {
+    const options = importCustomersSchema.parse(req.body);
+
+    if (!req.file) {
+      throw new AppError(400, "File CSV atau vCard wajib diunggah");
+    }
+
+    const report = await importCustomers(
+      (req as any).user.id,
+      req.file.buffer.toString("utf8"),
+      options
+    );
+
+    res.json({
+      status: "success",
+      data: report,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Update customer
 router.patch("/:id", async (req, res, next) => {
   try {
@@ -182,15 +242,11 @@ router.patch("/:id", async (req, res, next) => {
 
     // Check if email is being updated and if it's already taken
     if (data.email && data.email !== existingCustomer.email) {
-      const emailTaken = await prisma.customer.findFirst({
-        where: {
-          userId,
-          email: data.email,
-          NOT: {
-            id: req.params.id,
-          },
-        },
-      });
+      const [emailTaken] = await findCustomersByEmail(
+        userId,
+        [data.email],
+        req.params.id
+      );
 
       if (emailTaken) {
         throw new AppError(400, "Email sudah digunakan oleh pelanggan lain");
@@ -227,7 +283,7 @@ router.delete("/:id", async (req, res, next) => {
       },
       include: {
         _count: {
-          select: { invoices: true }
+          select: { invoices: true, quotations: true, recurringInvoices: true }
         }
       }
     });
@@ -240,6 +296,14 @@ router.delete("/:id", async (req, res, next) => {
       throw new AppError(400, "Tidak dapat menghapus pelanggan yang memiliki faktur");
     }
 
+    if (customer._count.quotations > 0) {
+      throw new AppError(400, "Tidak dapat menghapus pelanggan yang memiliki penawaran");
+    }
+
+    if (customer._count.recurringInvoices > 0) {
+      throw new AppError(400, "Tidak dapat menghapus pelanggan yang memiliki faktur berulang");
+    }
+
     await prisma.customer.delete({
       where: {
         id: req.params.id,
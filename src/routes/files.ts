@@ -0,0 +1,108 @@
+import { NextFunction, Request, Response, Router } from "express";
+import { z } from "zod";
+import { authenticate } from "../middleware/auth";
+import { AppError } from "../middleware/errorHandler";
+import { prisma } from "../utils/prisma";
+import { storage, verifyFileSignature } from "../utils/storage";
+
+// Downloads of files kept by the local storage driver
+const router = Router();
+
+// Logos are printed on every document and email customers receive, so they
+// open without a login or signature
+const PUBLIC_FOLDERS = ["fakturly/settings/profile/"];
+
+const signedQuerySchema = z.object({
+  signature: z.string(),
+  expires: z.coerce.number().int(),
+});
+
+// Dot segments could reach another folder than the one access is checked for
+function fileKey(req: Request): string {
+  const key = (req.params as Record<string, string>)[0];
+  if (key.split("/").some((segment) => segment === ".." || segment === ".")) {
+    throw new AppError(404, "File tidak ditemukan");
+  }
+
+  return key;
+}
+
+async function sendFile(res: Response, key: string) {
+  const file = await storage.get(key);
+
+  res.setHeader("Content-Type", file.contentType);
+  res.setHeader("Cache-Control", "private, max-age=3600");
+  res.send(file.data);
+}
+
+// The business a file belongs to, from the folder it was uploaded to:
+// fakturly/<kind>/YYYY/MM/<invoice or user id>/<file>
+async function fileOwnerId(key: string): Promise<string | null> {
+  const [, kind, , , ownerId] = key.split("/");
+  if (!ownerId) {
+    return null;
+  }
+
+  switch (kind) {
+    case "payment-proofs":
+    case "invoice-attachments": {
+      const invoice = await prisma.invoice.findUnique({
+        where: { id: ownerId },
+        select: { userId: true },
+      });
+      return invoice?.userId ?? null;
+    }
+    default:
+      // Generated PDFs are only handed out as signed links
+      return null;
+  }
+}
+
+// Download a file through a signed link, or a public one
+router.get("/*", async (req, res, next) => {
+  try {
+    const key = fileKey(req);
+
+    if (PUBLIC_FOLDERS.some((folder) => key.startsWith(folder))) {
+      return await sendFile(res, key);
+    }
+
+    // Without a signature the business has to log in, see below
+    if (req.query.signature === undefined) {
+      return next();
+    }
+
+    const query = signedQuerySchema.safeParse(req.query);
+    if (
+      !query.success ||
+      !verifyFileSignature(key, query.data.signature, query.data.expires)
+    ) {
+      throw new AppError(403, "Tautan unduhan tidak valid atau kedaluwarsa");
+    }
+
+    await sendFile(res, key);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Download a file of the logged in business
+router.get(
+  "/*",
+  authenticate,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const key = fileKey(req);
+
+      if ((await fileOwnerId(key)) !== (req as any).user.id) {
+        throw new AppError(404, "File tidak ditemukan");
+      }
+
+      await sendFile(res, key);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export const fileRouter = router;
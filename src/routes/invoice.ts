@@ -1,4 +1,3 @@
-import { v2 as cloudinary } from "cloudinary";
 import {
   endOfDay,
   endOfMonth,
@@ -8,99 +7,197 @@ import {
   subMonths,
 } from "date-fns";
 import { Request, Router, Response, NextFunction } from "express";
-import multer from "multer";
-import { CloudinaryStorage } from "multer-storage-cloudinary";
+import { InvoiceStatus, Prisma } from "@prisma/client";
 import { z } from "zod";
 import { authenticate } from "../middleware/auth";
 import { AppError } from "../middleware/errorHandler";
 import { sendInvoiceEmail, sendPaymentProofEmail } from "../utils/email";
 import { generateInvoicePDF } from "../utils/pdf";
+import { getInvoicePdfStyle } from "../services/invoicePdf";
 import { prisma } from "../utils/prisma";
 import { AuthenticatedRequest } from "../types/express";
-
-// Configure Cloudinary
-cloudinary.config({
-  cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
-  api_key: process.env.CLOUDINARY_API_KEY,
-  api_secret: process.env.CLOUDINARY_API_SECRET,
-});
+import { DEFAULT_TIMEZONE, toDateKey } from "../utils/timezone";
+import {
+  discardUploads,
+  importUpload,
+  invoiceAttachmentUpload,
+  parseMultipartJson,
+  paymentProofUpload,
+} from "../utils/upload";
+import {
+  calculateBalance,
+  lockInvoice,
+  syncInvoicePaymentStatus,
+  withBalance,
+  withBalances,
+} from "../services/invoicePayment";
+import { replaceInvoiceItems } from "../services/invoiceItems";
+import {
+  byUser,
+  describeItems,
+  diffFields,
+  getInvoiceActivity,
+  paymentDetails,
+  recordInvoiceActivity,
+  statusActivityType,
+  TRACKED_INVOICE_FIELDS,
+} from "../services/invoiceActivity";
+import { createInvoice, duplicateInvoice } from "../services/invoice";
+import {
+  addInvoiceAttachments,
+  assertCanAttach,
+  deleteInvoiceAttachment,
+  deleteInvoiceWithAttachments,
+  getEmailAttachments,
+  listInvoiceAttachments,
+  updateInvoiceAttachment,
+} from "../services/invoiceAttachment";
+import {
+  BULK_INVOICE_LIMIT,
+  runBulkInvoiceAction,
+} from "../services/invoiceBulk";
+import {
+  EXPORT_CONTENT_TYPES,
+  exportInvoices,
+} from "../services/invoiceExport";
+import {
+  importInvoices,
+  INVOICE_IMPORT_FIELDS,
+} from "../services/invoiceImport";
+import { allocateInvoiceNumber } from "../services/invoiceNumber";
+import {
+  invoiceShareUrl,
+  revokeInvoiceShare,
+  shareInvoice,
+} from "../services/invoiceShare";
+import {
+  subtractTotals,
+  sumCreditNoteTotals,
+  sumInvoiceBalances,
+  sumPaymentTotals,
+} from "../services/revenueStats";
+import { resolveExchangeRate } from "../services/exchangeRate";
+import {
+  BASE_CURRENCY,
+  isValidCurrency,
+  toBaseCurrency,
+} from "../utils/currency";
+import { money, Money, roundMoney } from "../utils/money";
+import { getInvoicePaymentOptions } from "../services/invoiceOnlinePayment";
+import {
+  approvePaymentProof,
+  listPaymentProofs,
+  rejectPaymentProof,
+} from "../services/paymentProof";
+import { invoicePaymentRouter } from "./invoicePayment";
 
 const router = Router();
 
-// Configure multer with Cloudinary storage
-const storage = new CloudinaryStorage({
-  cloudinary: cloudinary,
-  params: async (req: Request, file: Express.Multer.File) => {
-    const currentDate = new Date();
-    const year = currentDate.getFullYear();
-    const month = String(currentDate.getMonth() + 1).padStart(2, "0");
-
-    // Get invoice ID from params
-    const invoiceId = req.params.id;
-
-    // Create a structured folder path:
-    // fakturly/payment-proofs/YYYY/MM/invoice-id/
-    const folderPath = `fakturly/payment-proofs/${year}/${month}/${invoiceId}`;
-
-    return {
-      folder: folderPath,
-      allowed_formats: ["jpg", "jpeg", "png"],
-      transformation: [
-        { width: 1000, height: 1000, crop: "limit" },
-        { quality: "auto" },
-        { fetch_format: "auto" },
-      ],
-      // Use a more descriptive public_id
-      public_id: `proof-${Date.now()}`,
-      // Add tags for better organization
-      tags: [
-        "payment-proof",
-        `invoice-${invoiceId}`,
-        `year-${year}`,
-        `month-${month}`,
-      ],
-    };
-  },
+const discountTypeSchema = z.enum(["PERCENTAGE", "FIXED"]).nullable();
+
+const invoiceItemSchema = z.object({
+  description: z.string(),
+  quantity: z.number(),
+  price: z.number(),
+  discountType: discountTypeSchema.optional(),
+  discountValue: z.number().min(0).optional(),
+  // Null uses the invoice tax rate
+  taxRate: z.number().min(0).max(100).nullable().optional(),
+  taxExempt: z.boolean().optional(),
 });
 
-const upload = multer({
-  storage,
-  limits: {
-    fileSize: 5 * 1024 * 1024, // 5MB limit
-  },
-  fileFilter: (req: Request, file: Express.Multer.File, cb: any) => {
-    const allowedTypes = /jpeg|jpg|png/;
-    const mimetype = allowedTypes.test(file.mimetype);
-
-    if (mimetype) {
-      cb(null, true);
-    } else {
-      cb(new Error("Hanya file gambar yang diperbolehkan (JPG, JPEG, PNG)"));
-    }
-  },
-});
+const currencySchema = z
+  .string()
+  .toUpperCase()
+  .refine(isValidCurrency, { message: "Kode mata uang tidak valid" });
+
+// Null prints with the default template from settings
+const pdfTemplateSchema = z
+  .enum(["CLASSIC", "MODERN", "COMPACT", "THERMAL"])
+  .nullable();
 
 const createInvoiceSchema = z.object({
   customerId: z.string(),
   date: z.string(),
   dueDate: z.string(),
-  items: z.array(
-    z.object({
-      description: z.string(),
-      quantity: z.number(),
-      price: z.number(),
-    })
-  ),
+  // Defaults to the currency in settings
+  currency: currencySchema.optional(),
+  // IDR per unit of currency, looked up from the entered rates when omitted
+  exchangeRate: z.number().positive().optional(),
+  items: z.array(invoiceItemSchema),
   notes: z.string().optional(),
   taxRate: z.number(),
+  discountType: discountTypeSchema.optional(),
+  discountValue: z.number().min(0).optional(),
+  pdfTemplate: pdfTemplateSchema.optional(),
+  // Save without consuming an invoice number, see POST /:id/finalize
+  draft: z.boolean().optional(),
+});
+
+// Anything not given is copied from the original invoice
+const duplicateInvoiceSchema = createInvoiceSchema.partial().extend({
+  notes: z.string().nullable().optional(),
+  // Keep the original days between invoice date and due date, otherwise the
+  // new invoice is due on its date
+  keepPaymentTerm: z.boolean().optional(),
+});
+
+const shareInvoiceSchema = z.object({
+  // Replace the current link, the old one stops working
+  regenerate: z.boolean().optional(),
+});
+
+const paymentProofQuerySchema = z.object({
+  status: z.enum(["PENDING", "APPROVED", "REJECTED"]).default("PENDING"),
+});
+
+const rejectPaymentProofSchema = z.object({
+  reason: z.string().min(1, "Alasan penolakan wajib diisi").max(1000),
+});
+
+// Attachments to email with the invoice, the ones marked includeInEmail
+// when omitted
+const emailAttachmentIdsSchema = z.array(z.string()).max(20).optional();
+
+const finalizeInvoiceSchema = z.object({
+  send: z.boolean().optional(),
+  attachmentIds: emailAttachmentIdsSchema,
+});
+
+const sendInvoiceSchema = z.object({
+  attachmentIds: emailAttachmentIdsSchema,
+});
+
+const uploadAttachmentsSchema = z.object({
+  // Multipart fields arrive as text
+  includeInEmail: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((val) => val === "true"),
+});
+
+const updateAttachmentSchema = z.object({
+  includeInEmail: z.boolean(),
 });
 
 const updateInvoiceSchema = z.object({
   status: z.enum(["UNPAID", "PAID", "OVERDUE", "CANCELLED"]).optional(),
   paymentProof: z.string().nullable().optional(),
   paymentNote: z.string().nullable().optional(),
+  customerId: z.string().optional(),
+  date: z.string().optional(),
   dueDate: z.string().datetime().optional(),
+  taxRate: z.number().min(0).max(100).optional(),
+  discountType: discountTypeSchema.optional(),
+  discountValue: z.number().min(0).optional(),
+  currency: currencySchema.optional(),
+  exchangeRate: z.number().positive().optional(),
+  items: z
+    .array(invoiceItemSchema.extend({ id: z.string().optional() }))
+    .min(1, "Minimal satu item")
+    .optional(),
   notes: z.string().optional(),
+  pdfTemplate: pdfTemplateSchema.optional(),
   paidAt: z
     .string()
     .datetime()
@@ -108,8 +205,22 @@ const updateInvoiceSchema = z.object({
     .transform((val) => (val ? new Date(val) : undefined)),
 });
 
+// Items, customer, date and tax rate can only be edited while unpaid.
+// Finalization fixes the number, not the content: issued invoices stay
+// correctable under their number so a typo does not need a cancellation and
+// a new number. Every change is kept in the activity log with its old and
+// new values, and the total may not drop below what was already paid.
+const EDITABLE_STATUSES: InvoiceStatus[] = [
+  "DRAFT",
+  "UNPAID",
+  "PARTIALLY_PAID",
+  "OVERDUE",
+];
+
 router.use(authenticate);
 
+router.use("/:id/payments", invoicePaymentRouter);
+
 // Update user select in all queries
 const userSelect = {
   id: true,
@@ -133,13 +244,126 @@ const getInvoicesQuerySchema = z.object({
   page: z.string().transform(Number).default("1"),
   limit: z.string().transform(Number).default("10"),
   search: z.string().optional(),
-  status: z.enum(["UNPAID", "PAID", "OVERDUE", "CANCELLED"]).optional(),
+  status: z
+    .enum([
+      "DRAFT",
+      "UNPAID",
+      "PARTIALLY_PAID",
+      "PENDING_VERIFICATION",
+      "PAID",
+      "OVERDUE",
+      "CANCELLED",
+    ])
+    .optional(),
   startDate: z.string().optional(),
   endDate: z.string().optional(),
   sortBy: z.enum(["date", "dueDate", "total", "status"]).default("date"),
   sortOrder: z.enum(["asc", "desc"]).default("desc"),
 });
 
+const invoiceFiltersSchema = getInvoicesQuerySchema.pick({
+  search: true,
+  status: true,
+  startDate: true,
+  endDate: true,
+});
+
+type InvoiceFilters = z.infer<typeof invoiceFiltersSchema>;
+
+const exportInvoicesQuerySchema = getInvoicesQuerySchema
+  .omit({ page: true, limit: true })
+  .extend({
+    format: z.enum(["csv", "xlsx"]).default("csv"),
+    // One row per invoice item instead of one row per invoice
+    items: z
+      .enum(["true", "false"])
+      .default("false")
+      .transform((val) => val === "true"),
+  });
+
+const importInvoicesSchema = z.object({
+  // Validate and report only, send "false" to save the invoices
+  dryRun: z
+    .enum(["true", "false"])
+    .default("true")
+    .transform((val) => val === "true"),
+  // Move the invoice number sequence past the imported numbers
+  advanceNumbering: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((val) => val === "true"),
+  // JSON object of field name to the header used for it in the file
+  mapping: z.preprocess(
+    parseMultipartJson,
+    z.record(z.enum(INVOICE_IMPORT_FIELDS), z.string()).optional()
+  ),
+});
+
+// Either explicit ids or the same filters as the invoice list
+const bulkInvoiceSchema = z
+  .object({
+    action: z.enum(["MARK_PAID", "CANCEL", "SEND", "REMIND", "DELETE"]),
+    ids: z.array(z.string()).min(1).max(BULK_INVOICE_LIMIT).optional(),
+    filter: invoiceFiltersSchema.optional(),
+  })
+  .refine((data) => !data.ids !== !data.filter, {
+    message: "Isi salah satu dari ids atau filter",
+  });
+
+// Where clause for the invoice list filters, also used by bulk operations
+function buildInvoiceWhere(
+  userId: string,
+  { search, status, startDate, endDate }: InvoiceFilters
+): Prisma.InvoiceWhereInput {
+  const where: any = {
+    userId,
+  };
+
+  // Add search condition
+  if (search) {
+    where.OR = [
+      { number: { contains: search, mode: "insensitive" } },
+      { customer: { name: { contains: search, mode: "insensitive" } } },
+      { total: isNaN(Number(search)) ? undefined : Number(search) },
+      {
+        date: isNaN(Date.parse(search))
+          ? undefined
+          : {
+              equals: new Date(search),
+            },
+      },
+      {
+        dueDate: isNaN(Date.parse(search))
+          ? undefined
+          : {
+              equals: new Date(search),
+            },
+      },
+    ].filter((condition) => condition !== undefined);
+  }
+
+  // Add status filter
+  if (status) {
+    where.status = status;
+  }
+
+  // Add date range filter
+  if (startDate) {
+    where.date = {
+      ...where.date,
+      gte: new Date(startDate),
+    };
+  }
+  if (endDate) {
+    where.date = {
+      ...where.date,
+      lte: new Date(endDate),
+    };
+  }
+
+  return where;
+}
+
 // Get all invoices with pagination and filters
 router.get(
   "/",
@@ -157,52 +381,12 @@ router.get(
         sortOrder,
       } = getInvoicesQuerySchema.parse(req.query);
 
-      // Build where clause
-      const where: any = {
-        userId: req.user?.id,
-      };
-
-      // Add search condition
-      if (search) {
-        where.OR = [
-          { number: { contains: search, mode: "insensitive" } },
-          { customer: { name: { contains: search, mode: "insensitive" } } },
-          { total: isNaN(Number(search)) ? undefined : Number(search) },
-          {
-            date: isNaN(Date.parse(search))
-              ? undefined
-              : {
-                  equals: new Date(search),
-                },
-          },
-          {
-            dueDate: isNaN(Date.parse(search))
-              ? undefined
-              : {
-                  equals: new Date(search),
-                },
-          },
-        ].filter((condition) => condition !== undefined);
-      }
-
-      // Add status filter
-      if (status) {
-        where.status = status;
-      }
-
-      // Add date range filter
-      if (startDate) {
-        where.date = {
-          ...where.date,
-          gte: new Date(startDate),
-        };
-      }
-      if (endDate) {
-        where.date = {
-          ...where.date,
-          lte: new Date(endDate),
-        };
-      }
+      const where = buildInvoiceWhere(req.user!.id, {
+        search,
+        status,
+        startDate,
+        endDate,
+      });
 
       // Get total count
       const total = await prisma.invoice.count({ where });
@@ -223,7 +407,7 @@ router.get(
       res.json({
         status: "success",
         data: {
-          invoices,
+          invoices: await withBalances(invoices),
           pagination: {
             page,
             limit,
@@ -238,6 +422,214 @@ router.get(
   }
 );
 
+// Export the filtered invoice list as a CSV or XLSX download
+router.get("/export", async (req, res, next) => {
+  try {
+    const userId = (req as any).user.id;
+    const { format, items, sortBy, sortOrder, ...filters } =
+      exportInvoicesQuerySchema.parse(req.query);
+    const settings = await prisma.settings.findUnique({
+      where: { userId },
+      select: { timezone: true },
+    });
+    const timeZone = settings?.timezone || DEFAULT_TIMEZONE;
+
+    res.setHeader("Content-Type", EXPORT_CONTENT_TYPES[format]);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="faktur-${toDateKey(
+        new Date(),
+        timeZone
+      )}.${format}"`
+    );
+
+    await exportInvoices(res, {
+      format,
+      includeItems: items,
+      where: buildInvoiceWhere(userId, filters),
+      orderBy: { [sortBy]: sortOrder },
+      timeZone,
+    });
+  } catch (error) {
+    // Once the download has started the only signal left is a broken stream
+    if (res.headersSent) {
+      console.error("Error exporting invoices:", error);
+      res.destroy(error as Error);
+      return;
+    }
+    next(error);
+  }
+});
+
+// Payment proofs uploaded by customers, pending ones by default
+router.get("/payment-proofs", async (req, res, next) => {
+  try {
+    const { status } = paymentProofQuerySchema.parse(req.query);
+    const proofs = await listPaymentProofs((req as any).user.id, status);
+
+    res.json({
+      status: "success",
+      data: proofs,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Approve a payment proof, the invoice is marked as paid
+router.post("/payment-proofs/:proofId/approve", async (req, res, next) => {
+  try {
+    const result = await approvePaymentProof(
+      (req as any).user.id,
+      req.params.proofId
+    );
+
+    res.json({
+      status: "success",
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Reject a payment proof, the customer is told the reason
+router.post("/payment-proofs/:proofId/reject", async (req, res, next) => {
+  try {
+    const { reason } = rejectPaymentProofSchema.parse(req.body);
+    const result = await rejectPaymentProof(
+      (req as any).user.id,
+      req.params.proofId,
+      reason
+    );
+
+    res.json({
+      status: "success",
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get attachments of an invoice
+router.get("/:id/attachments", async (req, res, next) => {
+  try {
+    const attachments = await listInvoiceAttachments(
+      (req as any).user.id,
+      req.params.id
+    );
+
+    res.json({
+      status: "success",
+      data: attachments,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Upload supporting documents, PDFs or images, to an invoice
+router.post(
+  "/:id/attachments",
+  // Check the invoice before the files are uploaded
+  async (req, res, next) => {
+    try {
+      await assertCanAttach((req as any).user.id, req.params.id);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  },
+  invoiceAttachmentUpload.array("files"),
+  async (req, res, next) => {
+    try {
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+      if (files.length === 0) {
+        throw new AppError(400, "Tidak ada file yang diunggah");
+      }
+
+      const fields = uploadAttachmentsSchema.safeParse(req.body);
+      if (!fields.success) {
+        // The files are stored already, nothing will refer to them
+        await discardUploads(files);
+        throw fields.error;
+      }
+
+      const { includeInEmail } = fields.data;
+      const attachments = await addInvoiceAttachments(
+        (req as any).user.id,
+        req.params.id,
+        files,
+        includeInEmail
+      );
+
+      res.status(201).json({
+        status: "success",
+        data: attachments,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Choose whether an attachment is emailed with the invoice by default
+router.patch("/:id/attachments/:attachmentId", async (req, res, next) => {
+  try {
+    const data = updateAttachmentSchema.parse(req.body);
+    const attachment = await updateInvoiceAttachment(
+      (req as any).user.id,
+      req.params.id,
+      req.params.attachmentId,
+      data
+    );
+
+    res.json({
+      status: "success",
+      data: attachment,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete an attachment
+router.delete("/:id/attachments/:attachmentId", async (req, res, next) => {
+  try {
+    await deleteInvoiceAttachment(
+      (req as any).user.id,
+      req.params.id,
+      req.params.attachmentId
+    );
+
+    res.json({
+      status: "success",
+      data: null,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Timeline of everything that happened to an invoice, oldest first
+router.get("/:id/activity", async (req, res, next) => {
+  try {
+    const activity = await getInvoiceActivity(
+      (req as any).user.id,
+      req.params.id
+    );
+
+    res.json({
+      status: "success",
+      data: activity,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get single invoice
 router.get("/:id", async (req, res, next) => {
   try {
@@ -252,6 +644,22 @@ router.get("/:id", async (req, res, next) => {
         },
         customer: true,
         items: true,
+        payments: {
+          orderBy: { date: "asc" },
+        },
+        creditNotes: {
+          select: { id: true, number: true, date: true, total: true },
+          orderBy: { date: "asc" },
+        },
+        quotation: {
+          select: { id: true, number: true },
+        },
+        paymentProofSubmissions: {
+          orderBy: { createdAt: "desc" },
+        },
+        attachments: {
+          orderBy: { createdAt: "asc" },
+        },
       },
     });
 
@@ -261,7 +669,12 @@ router.get("/:id", async (req, res, next) => {
 
     res.json({
       status: "success",
-      data: invoice,
+      data: {
+        ...withBalance(invoice),
+        shareUrl: invoice.shareToken
+          ? invoiceShareUrl(invoice.shareToken)
+          : null,
+      },
     });
   } catch (error) {
     next(error);
@@ -274,66 +687,117 @@ router.post("/", authenticate, async (req, res, next) => {
     const userId = (req as any).user.id;
     const data = createInvoiceSchema.parse(req.body);
 
-    // Calculate totals
-    const subtotal = data.items.reduce(
-      (sum, item) => sum + item.quantity * item.price,
-      0
-    );
-    const tax = (subtotal * data.taxRate) / 100;
-    const total = subtotal + tax;
+    const invoice = await createInvoice(userId, {
+      ...data,
+      date: new Date(data.date),
+      dueDate: new Date(data.dueDate),
+    });
 
-    // Get next invoice number
-    const settings = await prisma.settings.findUnique({
-      where: { userId },
+    res.json({
+      status: "success",
+      data: invoice,
     });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Import invoices from a CSV file, as a dry run unless asked to save
+router.post(
+  "/import",
+  importUpload(["csv"]).single("file"),
+  async (req, res, next) => {
+    try {
+      const options = importInvoicesSchema.parse(req.body);
+
+      if (!req.file) {
+        throw new AppError(400, "File CSV wajib diunggah");
+      }
 
-    if (!settings) {
-      throw new AppError(400, "User settings not found");
+      const report = await importInvoices(
+        (req as any).user.id,
+        req.file.buffer.toString("utf8"),
+        options
+      );
+
+      res.json({
+        status: "success",
+        data: report,
+      });
+    } catch (error) {
+      next(error);
     }
+  }
+);
 
-    const invoicePrefix = settings.invoicePrefix || "INV";
-    const nextNumber = settings.nextInvoiceNumber;
-    const invoiceNumber = `${invoicePrefix}${String(nextNumber).padStart(
-      5,
-      "0"
-    )}`;
+// Apply one action to many invoices and report the result per invoice
+router.post("/bulk", async (req, res, next) => {
+  try {
+    const userId = (req as any).user.id;
+    const { action, ids, filter } = bulkInvoiceSchema.parse(req.body);
+    const report = await runBulkInvoiceAction(
+      userId,
+      action,
+      ids ? { ids } : { where: buildInvoiceWhere(userId, filter!) }
+    );
 
-    // Create invoice with items
-    const invoice = await prisma.invoice.create({
-      data: {
-        number: invoiceNumber,
-        date: new Date(data.date),
-        dueDate: new Date(data.dueDate),
-        subtotal,
-        tax,
-        total,
-        notes: data.notes,
-        userId,
-        customerId: data.customerId,
-        items: {
-          create: data.items.map((item) => ({
-            description: item.description,
-            quantity: item.quantity,
-            price: item.price,
-            amount: item.quantity * item.price,
-          })),
-        },
-      },
-      include: {
-        items: true,
-        customer: true,
-      },
+    res.json({
+      status: "success",
+      data: report,
     });
+  } catch (error) {
+    next(error);
+  }
+});
 
-    // Increment invoice number
-    await prisma.settings.update({
-      where: { userId },
-      data: {
-        nextInvoiceNumber: {
-          increment: 1,
-        },
-      },
+// Turn on the public link of an invoice, or replace it with a new one
+router.post("/:id/share", async (req, res, next) => {
+  try {
+    const { regenerate } = shareInvoiceSchema.parse(req.body || {});
+    const share = await shareInvoice(
+      (req as any).user.id,
+      req.params.id,
+      regenerate
+    );
+
+    res.json({
+      status: "success",
+      data: share,
     });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Turn off the public link of an invoice
+router.delete("/:id/share", async (req, res, next) => {
+  try {
+    await revokeInvoiceShare((req as any).user.id, req.params.id);
+
+    res.json({
+      status: "success",
+      message: "Tautan faktur berhasil dinonaktifkan",
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Duplicate an invoice in any status with fresh dates and the next number
+router.post("/:id/duplicate", async (req, res, next) => {
+  try {
+    const { date, dueDate, ...overrides } = duplicateInvoiceSchema.parse(
+      req.body || {}
+    );
+    const invoice = await duplicateInvoice(
+      (req as any).user.id,
+      req.params.id,
+      {
+        ...overrides,
+        date: date ? new Date(date) : undefined,
+        dueDate: dueDate ? new Date(dueDate) : undefined,
+      }
+    );
 
     res.json({
       status: "success",
@@ -344,71 +808,95 @@ router.post("/", authenticate, async (req, res, next) => {
   }
 });
 
-// Upload payment proof
-router.post("/:id/payment-proof", upload.single("file"), async (req, res) => {
-  try {
-    const { id } = req.params;
-    const file = req.file;
+// Upload payment proof
+router.post(
+  "/:id/payment-proof",
+  // Check the invoice before the file is uploaded, the upload folder is
+  // named after it
+  async (req, res, next) => {
+    try {
+      const invoice = await prisma.invoice.findFirst({
+        where: { id: req.params.id, userId: (req as any).user.id },
+        select: { id: true, status: true },
+      });
+
+      if (!invoice) {
+        return res.status(404).json({
+          success: false,
+          message: "Faktur tidak ditemukan",
+        });
+      }
+
+      if (invoice.status === "PAID") {
+        return res.status(400).json({
+          success: false,
+          message: "Faktur sudah lunas",
+        });
+      }
+
+      if (invoice.status === "CANCELLED") {
+        return res.status(400).json({
+          success: false,
+          message: "Faktur sudah dibatalkan",
+        });
+      }
+
+      if (invoice.status === "DRAFT") {
+        return res.status(400).json({
+          success: false,
+          message: "Faktur draf harus difinalisasi terlebih dahulu",
+        });
+      }
 
-    if (!file) {
-      return res.status(400).json({
-        success: false,
-        message: "Tidak ada file yang diunggah",
-      });
+      res.locals.invoiceId = invoice.id;
+      next();
+    } catch (error) {
+      next(error);
     }
+  },
+  paymentProofUpload.single("file"),
+  async (req, res) => {
+    const file = req.file;
 
-    const invoice = await prisma.invoice.findUnique({
-      where: { id },
-      include: {
-        user: {
-          select: userSelect,
-        },
-        customer: true,
-        items: true,
-      },
-    });
+    try {
+      const userId = (req as any).user.id;
 
-    if (!invoice) {
-      return res.status(404).json({
-        success: false,
-        message: "Faktur tidak ditemukan",
-      });
-    }
+      if (!file) {
+        return res.status(400).json({
+          success: false,
+          message: "Tidak ada file yang diunggah",
+        });
+      }
 
-    if (invoice.status === "PAID") {
-      return res.status(400).json({
-        success: false,
-        message: "Faktur sudah lunas",
+      await recordInvoiceActivity(res.locals.invoiceId, {
+        type: "PROOF_UPLOADED",
+        author: byUser(userId),
+        details: { url: file.path },
       });
-    }
 
-    if (invoice.status === "CANCELLED") {
-      return res.status(400).json({
+      // Return the Cloudinary URL
+      return res.json({
+        success: true,
+        data: {
+          url: file.path, // Cloudinary URL will be in file.path
+        },
+      });
+    } catch (error) {
+      console.error("Error uploading payment proof:", error);
+      await discardUploads([file]);
+      return res.status(500).json({
         success: false,
-        message: "Faktur sudah dibatalkan",
+        message: "Gagal mengunggah bukti pembayaran",
       });
     }
-
-    // Return the Cloudinary URL
-    return res.json({
-      success: true,
-      data: {
-        url: file.path, // Cloudinary URL will be in file.path
-      },
-    });
-  } catch (error) {
-    console.error("Error uploading payment proof:", error);
-    return res.status(500).json({
-      success: false,
-      message: "Gagal mengunggah bukti pembayaran",
-    });
   }
-});
+);
 
 // Update invoice
 router.patch("/:id", async (req, res) => {
   try {
     const { id } = req.params;
+    const userId = (req as any).user.id;
     const updateData = updateInvoiceSchema.safeParse(req.body);
 
     if (!updateData.success) {
@@ -419,14 +907,15 @@ router.patch("/:id", async (req, res) => {
       });
     }
 
-    const invoice = await prisma.invoice.findUnique({
-      where: { id },
+    const invoice = await prisma.invoice.findFirst({
+      where: { id, userId },
       include: {
         user: {
           select: userSelect,
         },
         customer: true,
         items: true,
+        payments: true,
       },
     });
 
@@ -445,6 +934,26 @@ router.patch("/:id", async (req, res) => {
       });
     }
 
+    // Drafts only change status through finalization
+    if (invoice.status === "DRAFT" && updateData.data.status) {
+      return res.status(400).json({
+        success: false,
+        message: "Faktur draf harus difinalisasi terlebih dahulu",
+      });
+    }
+
+    // A submitted payment proof settles the status through its review, the
+    // same rule as the bulk actions
+    if (
+      invoice.status === "PENDING_VERIFICATION" &&
+      updateData.data.status
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: "Bukti pembayaran faktur masih menunggu verifikasi",
+      });
+    }
+
     // Don't allow any changes to cancelled invoices
     if (invoice.status === "CANCELLED") {
       return res.status(400).json({
@@ -453,37 +962,255 @@ router.patch("/:id", async (req, res) => {
       });
     }
 
-    // If marking as paid, ensure paidAt is set
-    const finalUpdateData = {
-      ...updateData.data,
+    const {
+      items,
+      taxRate,
+      discountType,
+      discountValue,
+      currency,
+      exchangeRate,
+      customerId,
+      date,
+      paymentNote,
+      ...fields
+    } = updateData.data;
+    // A currency change re-rounds the amounts to its minor unit
+    const isPricingEdit =
+      items !== undefined ||
+      taxRate !== undefined ||
+      discountType !== undefined ||
+      discountValue !== undefined ||
+      currency !== undefined;
+    const isContentEdit =
+      isPricingEdit ||
+      exchangeRate !== undefined ||
+      customerId !== undefined ||
+      date !== undefined;
+
+    if (isContentEdit && !EDITABLE_STATUSES.includes(invoice.status)) {
+      return res.status(400).json({
+        success: false,
+        message: "Hanya faktur yang belum lunas yang dapat diubah isinya",
+      });
+    }
+
+    if (customerId && customerId !== invoice.customerId) {
+      const customer = await prisma.customer.findFirst({
+        where: { id: customerId, userId },
+        select: { id: true },
+      });
+
+      if (!customer) {
+        return res.status(404).json({
+          success: false,
+          message: "Pelanggan tidak ditemukan",
+        });
+      }
+    }
+
+    const finalUpdateData: Prisma.InvoiceUncheckedUpdateInput = {
+      ...fields,
       // Map paymentNote to notes if it exists in the update data
-      notes:
-        "paymentNote" in updateData.data
-          ? updateData.data.paymentNote
-          : undefined,
-      // Ensure paymentProof is included in the update
-      paymentProof: updateData.data.paymentProof,
+      notes: "paymentNote" in updateData.data ? paymentNote : fields.notes,
+      customerId,
+      date: date ? new Date(date) : undefined,
     };
 
-    // Remove paymentNote as it's not a valid field
-    if ("paymentNote" in finalUpdateData) {
-      delete (finalUpdateData as any).paymentNote;
+    // Switching currency needs a rate for the new one, from the request or
+    // from the entered rates at the invoice date
+    if (currency && currency !== invoice.currency) {
+      finalUpdateData.currency = currency;
+      finalUpdateData.exchangeRate =
+        currency === BASE_CURRENCY
+          ? 1
+          : exchangeRate ??
+            (await resolveExchangeRate(
+              userId,
+              currency,
+              date ? new Date(date) : invoice.date
+            ));
+    } else if (exchangeRate !== undefined) {
+      if ((currency || invoice.currency) === BASE_CURRENCY) {
+        return res.status(400).json({
+          success: false,
+          message: `Kurs tidak dapat diubah untuk faktur ${BASE_CURRENCY}`,
+        });
+      }
+      finalUpdateData.exchangeRate = exchangeRate;
     }
 
-    if (finalUpdateData.status === "PAID" && invoice.status !== "PAID") {
+    if (fields.status === "PAID" && invoice.status !== "PAID") {
       finalUpdateData.paidAt = new Date();
     }
 
-    const updatedInvoice = await prisma.invoice.update({
-      where: { id },
-      data: finalUpdateData,
+    const { amountPaid } = calculateBalance(invoice.total, invoice.payments);
+
+    // Moving the due date of an overdue invoice into the future reopens it
+    if (fields.dueDate && !fields.status && invoice.status === "OVERDUE") {
+      const settings = await prisma.settings.findUnique({
+        where: { userId },
+        select: { timezone: true },
+      });
+      const timeZone = settings?.timezone || DEFAULT_TIMEZONE;
+
+      if (
+        toDateKey(new Date(), timeZone) <=
+        toDateKey(new Date(fields.dueDate), timeZone)
+      ) {
+        finalUpdateData.status = amountPaid.gt(0) ? "PARTIALLY_PAID" : "UNPAID";
+        finalUpdateData.overdueAt = null;
+      }
+    }
+
+    const pricingSettings = isPricingEdit
+      ? await prisma.settings.findUnique({
+          where: { userId },
+          select: { taxRounding: true },
+        })
+      : null;
+
+    const author = byUser(userId);
+    const updatedInvoice = await prisma.$transaction(async (tx) => {
+      // Recalculate totals server-side whenever items, tax or discounts
+      // change. Existing lines are rewritten too since their tax depends on
+      // the invoice rate and discount.
+      if (isPricingEdit) {
+        // Payments recorded meanwhile count against the new total
+        await lockInvoice(tx, id);
+        const { amountPaid } = calculateBalance(
+          invoice.total,
+          await tx.invoicePayment.findMany({
+            where: { invoiceId: id },
+            select: { amount: true },
+          })
+        );
+
+        const newTaxRate = taxRate ?? invoice.taxRate;
+        const discount = {
+          type:
+            discountType !== undefined ? discountType : invoice.discountType,
+          value: discountValue ?? invoice.discountValue,
+        };
+        const totals = await replaceInvoiceItems(
+          tx,
+          id,
+          invoice.items,
+          items ?? invoice.items,
+          newTaxRate,
+          discount,
+          {
+            currency: currency || invoice.currency,
+            taxRounding: pricingSettings?.taxRounding,
+          }
+        );
+
+        if (totals.total.lt(amountPaid)) {
+          throw new AppError(
+            400,
+            "Total faktur tidak boleh kurang dari jumlah yang sudah dibayar"
+          );
+        }
+
+        finalUpdateData.subtotal = totals.subtotal;
+        finalUpdateData.discountType = discount.type;
+        finalUpdateData.discountValue = discount.value;
+        finalUpdateData.discount = totals.discount;
+        finalUpdateData.taxRate = newTaxRate;
+        finalUpdateData.tax = totals.tax;
+        finalUpdateData.total = totals.total;
+      }
+
+      const saved = await tx.invoice.update({
+        where: { id },
+        data: finalUpdateData,
+      });
+
+      const changes = diffFields(invoice, saved, TRACKED_INVOICE_FIELDS);
+      if (items !== undefined) {
+        Object.assign(
+          changes,
+          diffFields(
+            { items: describeItems(invoice.items) },
+            {
+              items: describeItems(
+                await tx.invoiceItem.findMany({ where: { invoiceId: id } })
+              ),
+            },
+            ["items"]
+          )
+        );
+      }
+
+      if (Object.keys(changes).length > 0) {
+        await recordInvoiceActivity(
+          id,
+          {
+            type: changes.status ? statusActivityType(saved.status) : "UPDATED",
+            author,
+            changes,
+          },
+          tx
+        );
+      }
+
+      // Settle the remaining balance in the payment ledger
+      if (fields.status === "PAID" && invoice.status !== "PAID") {
+        const { balanceDue } = calculateBalance(
+          (finalUpdateData.total as Prisma.Decimal | undefined) ??
+            invoice.total,
+          invoice.payments
+        );
+
+        if (balanceDue.gt(0)) {
+          const payment = await tx.invoicePayment.create({
+            data: {
+              invoiceId: id,
+              amount: balanceDue,
+              date: finalUpdateData.paidAt as Date,
+              proof: fields.paymentProof,
+              notes: paymentNote,
+            },
+          });
+
+          await recordInvoiceActivity(
+            id,
+            {
+              type: "PAYMENT_RECORDED",
+              author,
+              details: paymentDetails(payment),
+            },
+            tx
+          );
+        }
+      }
+
+      // A lower total may settle a partially paid invoice
+      if (isContentEdit) {
+        await syncInvoicePaymentStatus(tx, id, author);
+      }
+
+      return tx.invoice.findUniqueOrThrow({
+        where: { id },
+        include: {
+          customer: true,
+          items: true,
+          payments: true,
+        },
+      });
     });
 
     return res.json({
       success: true,
-      data: updatedInvoice,
+      data: withBalance(updatedInvoice),
     });
   } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
     console.error("Error updating invoice:", error);
     return res.status(500).json({
       success: false,
@@ -495,13 +1222,32 @@ router.patch("/:id", async (req, res) => {
 // Delete invoice
 router.delete("/:id", async (req, res, next) => {
   try {
-    await prisma.invoice.delete({
-      where: {
-        id: req.params.id,
-        userId: (req as any).user.id,
-      },
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: req.params.id, userId: (req as any).user.id },
+      select: { id: true, status: true },
+    });
+
+    if (!invoice) {
+      throw new AppError(404, "Faktur tidak ditemukan");
+    }
+
+    // Numbered invoices stay so the sequence has no gaps, they are
+    // cancelled or credited instead
+    if (invoice.status !== "DRAFT") {
+      throw new AppError(
+        400,
+        "Hanya faktur draf yang dapat dihapus, batalkan faktur atau buat nota kredit"
+      );
+    }
+
+    const deleted = await deleteInvoiceWithAttachments(invoice.id, {
+      status: "DRAFT",
     });
 
+    if (!deleted) {
+      throw new AppError(400, "Status faktur telah berubah");
+    }
+
     res.json({
       status: "success",
       data: null,
@@ -511,6 +1257,129 @@ router.delete("/:id", async (req, res, next) => {
   }
 });
 
+// Finalize a draft: assign the next invoice number and optionally send it
+router.post("/:id/finalize", async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const userId = (req as any).user.id;
+    const { send, attachmentIds } = finalizeInvoiceSchema.parse(req.body || {});
+    // Checked up front so a bad choice does not leave a finalized invoice
+    const attachments = send
+      ? await getEmailAttachments(id, attachmentIds)
+      : [];
+
+    const invoice = await prisma.$transaction(async (tx) => {
+      const draft = await tx.invoice.findFirst({
+        where: { id, userId },
+        select: {
+          status: true,
+          date: true,
+          _count: {
+            select: { items: true },
+          },
+        },
+      });
+
+      if (!draft) {
+        throw new AppError(404, "Faktur tidak ditemukan");
+      }
+
+      if (draft.status !== "DRAFT") {
+        throw new AppError(400, "Faktur sudah difinalisasi");
+      }
+
+      if (draft._count.items === 0) {
+        throw new AppError(400, "Faktur harus memiliki minimal satu item");
+      }
+
+      const number = await allocateInvoiceNumber(tx, userId, draft.date);
+
+      // Guard on status so a concurrent finalize rolls back its number
+      const { count } = await tx.invoice.updateMany({
+        where: { id, status: "DRAFT" },
+        data: { number, status: "UNPAID", finalizedAt: new Date() },
+      });
+
+      if (count === 0) {
+        throw new AppError(400, "Faktur sudah difinalisasi");
+      }
+
+      await recordInvoiceActivity(
+        id,
+        {
+          type: "FINALIZED",
+          author: byUser(userId),
+          changes: {
+            number: { from: null, to: number },
+            status: { from: "DRAFT", to: "UNPAID" },
+          },
+        },
+        tx
+      );
+
+      return tx.invoice.findUniqueOrThrow({
+        where: { id },
+        include: {
+          customer: true,
+          items: true,
+          payments: true,
+          user: {
+            select: userSelect,
+          },
+        },
+      });
+    });
+
+    let sent = false;
+
+    if (send) {
+      try {
+        await sendInvoiceEmail(
+          invoice,
+          await getInvoicePaymentOptions(invoice),
+          attachments
+        );
+        sent = true;
+      } catch (error) {
+        console.error("Error sending finalized invoice:", error);
+      }
+
+      if (sent) {
+        await recordInvoiceActivity(id, {
+          type: "SENT",
+          author: byUser(userId),
+          details: {
+            to: invoice.customer.email,
+            attachments: attachments.map((attachment) => attachment.filename),
+          },
+        });
+      }
+
+      await prisma.invoiceReminder.create({
+        data: {
+          invoiceId: id,
+          type: "MANUAL",
+          channel: "EMAIL",
+          status: sent ? "SENT" : "FAILED",
+          notes: sent
+            ? "Faktur dikirim via email"
+            : "Gagal mengirim faktur via email",
+        },
+      });
+    }
+
+    res.json({
+      status: "success",
+      data: {
+        ...withBalance(invoice),
+        sent,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Send invoice
 router.post(
   "/:id/send",
@@ -545,8 +1414,28 @@ router.post(
         throw new Error("Cannot send cancelled invoice");
       }
 
+      if (invoice.status === "DRAFT") {
+        throw new Error("Cannot send draft invoice, finalize it first");
+      }
+
+      const { attachmentIds } = sendInvoiceSchema.parse(req.body || {});
+      const attachments = await getEmailAttachments(id, attachmentIds);
+
       // Kirim email faktur
-      await sendInvoiceEmail(invoice);
+      await sendInvoiceEmail(
+        invoice,
+        await getInvoicePaymentOptions(invoice),
+        attachments
+      );
+
+      await recordInvoiceActivity(id, {
+        type: "SENT",
+        author: byUser(userId),
+        details: {
+          to: invoice.customer.email,
+          attachments: attachments.map((attachment) => attachment.filename),
+        },
+      });
 
       // Catat reminder
       await prisma.invoiceReminder.create({
@@ -565,11 +1454,19 @@ router.post(
       });
     } catch (error) {
       console.error("Error sending invoice:", error);
-      res.status(500).json({
-        status: "error",
-        message:
-          error instanceof Error ? error.message : "Failed to send invoice",
-      });
+      res
+        .status(
+          error instanceof AppError
+            ? error.statusCode
+            : error instanceof z.ZodError
+            ? 400
+            : 500
+        )
+        .json({
+          status: "error",
+          message:
+            error instanceof Error ? error.message : "Failed to send invoice",
+        });
     }
   }
 );
@@ -585,42 +1482,101 @@ router.get("/stats/overview", authenticate, async (req, res, next) => {
     const startOfLastMonth = startOfMonth(subMonths(today, 1));
     const endOfLastMonth = endOfMonth(subMonths(today, 1));
 
+    // Revenue is what the payment ledger received, on the payment date and
+    // whatever the invoice's status, minus what was refunded through credit
+    // notes. The overview, daily and monthly figures all follow this rule.
+    // Amounts are reported per currency and converted to IDR with each
+    // document's stored rate.
+    const paymentWhere: Prisma.InvoicePaymentWhereInput = {
+      invoice: { userId },
+    };
+    // Only credit notes on invoices that are part of revenue reduce it
+    const creditNoteWhere: Prisma.CreditNoteWhereInput = {
+      userId,
+      invoice: { paidAt: { not: null } },
+    };
+    const revenueInRange = async (gte: Date, lte: Date) =>
+      subtractTotals(
+        await sumPaymentTotals({ ...paymentWhere, date: { gte, lte } }),
+        await sumCreditNoteTotals({ ...creditNoteWhere, date: { gte, lte } })
+      );
+
     // Get total invoices and amount
-    const [totalInvoices, totalAmount, unpaidAmount, overdueAmount] =
-      await Promise.all([
-        prisma.invoice.count({ where: { userId } }),
-        prisma.invoice.aggregate({
-          where: { userId, status: "PAID" },
-          _sum: { total: true },
-        }),
-        prisma.invoice.aggregate({
-          where: { userId, status: "UNPAID" },
-          _sum: { total: true },
-        }),
-        prisma.invoice.aggregate({
-          where: { userId, status: "OVERDUE" },
-          _sum: { total: true },
-        }),
-      ]);
+    const [
+      totalInvoices,
+      totalAmount,
+      creditedAmount,
+      openBalances,
+      overdueBalances,
+    ] = await Promise.all([
+      prisma.invoice.count({
+        where: { userId, status: { not: "DRAFT" } },
+      }),
+      sumPaymentTotals(paymentWhere),
+      sumCreditNoteTotals(creditNoteWhere),
+      // Outstanding balances, overdue invoices are reported on their own
+      sumInvoiceBalances({
+        userId,
+        status: { in: ["UNPAID", "PARTIALLY_PAID", "PENDING_VERIFICATION"] },
+      }),
+      sumInvoiceBalances({ userId, status: "OVERDUE" }),
+    ]);
+    const netRevenue = subtractTotals(totalAmount, creditedAmount);
 
     // Get daily revenue for the last 30 days
-    const dailyRevenue = await prisma.invoice.findMany({
-      where: {
-        userId,
-        status: "PAID",
-        date: {
-          gte: thirtyDaysAgo,
-          lte: today,
+    const [dailyPayments, dailyCreditNotes] = await Promise.all([
+      prisma.invoicePayment.findMany({
+        where: {
+          ...paymentWhere,
+          date: {
+            gte: thirtyDaysAgo,
+            lte: today,
+          },
         },
-      },
-      select: {
-        date: true,
-        total: true,
-      },
-      orderBy: {
-        date: "asc",
-      },
-    });
+        select: {
+          date: true,
+          amount: true,
+          invoice: {
+            select: { exchangeRate: true },
+          },
+        },
+        orderBy: {
+          date: "asc",
+        },
+      }),
+      prisma.creditNote.findMany({
+        where: {
+          ...creditNoteWhere,
+          date: {
+            gte: thirtyDaysAgo,
+            lte: today,
+          },
+        },
+        select: {
+          date: true,
+          total: true,
+          exchangeRate: true,
+        },
+      }),
+    ]);
+
+    // Credit notes reduce revenue on the day they were issued
+    const dailyRevenue = [
+      ...dailyPayments.map((payment) => ({
+        date: payment.date,
+        total: roundMoney(
+          toBaseCurrency(payment.amount, payment.invoice.exchangeRate),
+          BASE_CURRENCY
+        ),
+      })),
+      ...dailyCreditNotes.map((creditNote) => ({
+        date: creditNote.date,
+        total: roundMoney(
+          toBaseCurrency(creditNote.total, creditNote.exchangeRate),
+          BASE_CURRENCY
+        ).negated(),
+      })),
+    ];
 
     // Group daily revenue by date
     const dailyRevenueGrouped = dailyRevenue.reduce((acc: any[], invoice) => {
@@ -630,7 +1586,7 @@ router.get("/stats/overview", authenticate, async (req, res, next) => {
       );
 
       if (existingDay) {
-        existingDay.total += invoice.total;
+        existingDay.total = existingDay.total.plus(invoice.total);
       } else {
         acc.push({ date, total: invoice.total });
       }
@@ -657,28 +1613,8 @@ router.get("/stats/overview", authenticate, async (req, res, next) => {
 
     // Get current month and last month revenue
     const [currentMonthRevenue, lastMonthRevenue] = await Promise.all([
-      prisma.invoice.aggregate({
-        where: {
-          userId,
-          status: "PAID",
-          date: {
-            gte: startOfCurrentMonth,
-            lte: endOfCurrentMonth,
-          },
-        },
-        _sum: { total: true },
-      }),
-      prisma.invoice.aggregate({
-        where: {
-          userId,
-          status: "PAID",
-          date: {
-            gte: startOfLastMonth,
-            lte: endOfLastMonth,
-          },
-        },
-        _sum: { total: true },
-      }),
+      revenueInRange(startOfCurrentMonth, endOfCurrentMonth),
+      revenueInRange(startOfLastMonth, endOfLastMonth),
     ]);
 
     // Get status distribution
@@ -696,14 +1632,20 @@ router.get("/stats/overview", authenticate, async (req, res, next) => {
       data: {
         overview: {
           totalInvoices,
-          totalAmount: totalAmount._sum.total || 0,
-          unpaidAmount: unpaidAmount._sum.total || 0,
-          overdueAmount: overdueAmount._sum.total || 0,
+          totalAmount: netRevenue.total,
+          totalAmountByCurrency: netRevenue.byCurrency,
+          creditedAmount: creditedAmount.total,
+          unpaidAmount: openBalances.balanceDue.total,
+          unpaidAmountByCurrency: openBalances.balanceDue.byCurrency,
+          overdueAmount: overdueBalances.balanceDue.total,
+          overdueAmountByCurrency: overdueBalances.balanceDue.byCurrency,
         },
         dailyRevenue: dailyRevenueComplete,
         monthlyComparison: {
-          currentMonth: currentMonthRevenue._sum.total || 0,
-          lastMonth: lastMonthRevenue._sum.total || 0,
+          currentMonth: currentMonthRevenue.total,
+          lastMonth: lastMonthRevenue.total,
+          currentMonthByCurrency: currentMonthRevenue.byCurrency,
+          lastMonthByCurrency: lastMonthRevenue.byCurrency,
         },
         statusDistribution: statusDistribution.map((status) => ({
           name: status.status,
@@ -729,8 +1671,8 @@ router.get("/stats/revenue", authenticate, async (req, res, next) => {
     const start = startOfDay(new Date(startDate as string));
     const end = endOfDay(new Date(endDate as string));
 
-    const revenue = await prisma.invoice.groupBy({
-      by: ["date"],
+    const groups = await prisma.invoice.groupBy({
+      by: ["date", "currency", "exchangeRate"],
       where: {
         userId,
         date: {
@@ -747,6 +1689,30 @@ router.get("/stats/revenue", authenticate, async (req, res, next) => {
       },
     });
 
+    // One entry per date, in IDR and per currency
+    const revenue: {
+      date: Date;
+      _sum: { total: Money };
+      byCurrency: Record<string, Money>;
+    }[] = [];
+
+    for (const group of groups) {
+      const amount = money(group._sum.total);
+      let day = revenue[revenue.length - 1];
+
+      if (!day || day.date.getTime() !== group.date.getTime()) {
+        day = { date: group.date, _sum: { total: money(0) }, byCurrency: {} };
+        revenue.push(day);
+      }
+
+      day._sum.total = day._sum.total.plus(
+        roundMoney(toBaseCurrency(amount, group.exchangeRate), BASE_CURRENCY)
+      );
+      day.byCurrency[group.currency] = amount.plus(
+        day.byCurrency[group.currency] ?? 0
+      );
+    }
+
     res.json({
       status: "success",
       data: revenue,
@@ -788,7 +1754,17 @@ router.post(
       }
 
       // Generate PDF and get Cloudinary URL
-      const pdfUrl = await generateInvoicePDF(invoice);
+      const pdfUrl = await generateInvoicePDF(
+        invoice,
+        await getInvoicePaymentOptions(invoice),
+        await getInvoicePdfStyle(invoice)
+      );
+
+      await recordInvoiceActivity(invoice.id, {
+        type: "PDF_GENERATED",
+        author: byUser(invoice.userId),
+        details: { url: pdfUrl },
+      });
 
       // Modify URL to force download
       const downloadUrl = pdfUrl.replace("/upload/", "/upload/");
@@ -0,0 +1,219 @@
+import { Prisma } from "@prisma/client";
+import { NextFunction, Request, Response, Router } from "express";
+import { z } from "zod";
+import { AppError } from "../middleware/errorHandler";
+import {
+  byUser,
+  paymentDetails,
+  recordInvoiceActivity,
+} from "../services/invoiceActivity";
+import {
+  calculateBalance,
+  lockInvoice,
+  syncInvoicePaymentStatus,
+} from "../services/invoicePayment";
+import { roundMoney } from "../utils/money";
+import { prisma } from "../utils/prisma";
+
+// Mounted under /invoices/:id/payments
+const router = Router({ mergeParams: true });
+
+type InvoiceParams = { id: string };
+
+type PrismaTx = Prisma.TransactionClient;
+
+const createPaymentSchema = z.object({
+  amount: z.number().positive("Jumlah pembayaran harus lebih dari 0"),
+  date: z.coerce
+    .date()
+    .optional()
+    .transform((val) => val ?? new Date()),
+  method: z
+    .enum(["BANK_TRANSFER", "CASH", "E_WALLET", "QRIS", "CARD", "OTHER"])
+    .default("BANK_TRANSFER"),
+  reference: z.string().nullable().optional(),
+  proof: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+async function findInvoice(id: string, userId: string, db: PrismaTx = prisma) {
+  const invoice = await db.invoice.findFirst({
+    where: { id, userId },
+    include: {
+      payments: {
+        orderBy: { date: "asc" },
+      },
+    },
+  });
+
+  if (!invoice) {
+    throw new AppError(404, "Faktur tidak ditemukan");
+  }
+
+  return invoice;
+}
+
+// Get payments of an invoice
+router.get(
+  "/",
+  async (req: Request<InvoiceParams>, res: Response, next: NextFunction) => {
+    try {
+      const invoice = await findInvoice(req.params.id, (req as any).user.id);
+
+      res.json({
+        status: "success",
+        data: {
+          payments: invoice.payments,
+          total: invoice.total,
+          ...calculateBalance(invoice.total, invoice.payments),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Record a payment
+router.post(
+  "/",
+  async (req: Request<InvoiceParams>, res: Response, next: NextFunction) => {
+    try {
+      const data = createPaymentSchema.parse(req.body);
+      const userId = (req as any).user.id;
+      const author = byUser(userId);
+
+      const [payment, updatedInvoice, balance] = await prisma.$transaction(
+        async (tx) => {
+          // Checked against the payments as they are once the invoice is
+          // locked, so concurrent payments cannot both fit the same balance
+          await lockInvoice(tx, req.params.id);
+          const invoice = await findInvoice(req.params.id, userId, tx);
+
+          if (invoice.status === "DRAFT") {
+            throw new AppError(
+              400,
+              "Faktur draf harus difinalisasi terlebih dahulu"
+            );
+          }
+
+          if (invoice.status === "CANCELLED") {
+            throw new AppError(400, "Faktur sudah dibatalkan");
+          }
+
+          const { balanceDue } = calculateBalance(
+            invoice.total,
+            invoice.payments
+          );
+          if (balanceDue.lte(0)) {
+            throw new AppError(400, "Faktur sudah lunas");
+          }
+
+          const amount = roundMoney(data.amount, invoice.currency);
+          if (amount.gt(balanceDue)) {
+            throw new AppError(400, "Jumlah pembayaran melebihi sisa tagihan", {
+              balanceDue,
+            });
+          }
+
+          const payment = await tx.invoicePayment.create({
+            data: {
+              ...data,
+              amount,
+              invoiceId: invoice.id,
+            },
+          });
+
+          await recordInvoiceActivity(
+            invoice.id,
+            {
+              type: "PAYMENT_RECORDED",
+              author,
+              details: paymentDetails(payment),
+            },
+            tx
+          );
+
+          const updatedInvoice = await syncInvoicePaymentStatus(
+            tx,
+            invoice.id,
+            author
+          );
+          return [
+            payment,
+            updatedInvoice,
+            calculateBalance(invoice.total, [...invoice.payments, payment]),
+          ] as const;
+        }
+      );
+
+      res.json({
+        status: "success",
+        data: {
+          payment,
+          invoiceStatus: updatedInvoice.status,
+          ...balance,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Delete a payment
+router.delete(
+  "/:paymentId",
+  async (
+    req: Request<InvoiceParams & { paymentId: string }>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const invoice = await findInvoice(req.params.id, (req as any).user.id);
+
+      if (invoice.status === "CANCELLED") {
+        throw new AppError(400, "Faktur sudah dibatalkan");
+      }
+
+      const payment = invoice.payments.find(
+        (payment) => payment.id === req.params.paymentId
+      );
+
+      if (!payment) {
+        throw new AppError(404, "Pembayaran tidak ditemukan");
+      }
+
+      const author = byUser((req as any).user.id);
+      const updatedInvoice = await prisma.$transaction(async (tx) => {
+        await tx.invoicePayment.delete({ where: { id: payment.id } });
+        await recordInvoiceActivity(
+          invoice.id,
+          {
+            type: "PAYMENT_DELETED",
+            author,
+            details: paymentDetails(payment),
+          },
+          tx
+        );
+
+        return syncInvoicePaymentStatus(tx, invoice.id, author);
+      });
+
+      res.json({
+        status: "success",
+        data: {
+          invoiceStatus: updatedInvoice.status,
+          ...calculateBalance(
+            invoice.total,
+            invoice.payments.filter((p) => p.id !== payment.id)
+          ),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export const invoicePaymentRouter = router;
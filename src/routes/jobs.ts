@@ -0,0 +1,83 @@
+import { Router } from "express";
+import { authenticate, requireAdmin } from "../middleware/auth";
+import { AppError } from "../middleware/errorHandler";
+import { getJob, getJobs, isJobRunning, runJob } from "../jobs/scheduler";
+import { prisma } from "../utils/prisma";
+
+const router = Router();
+
+router.use(authenticate, requireAdmin);
+
+// Get all scheduled jobs with their last run
+router.get("/", async (req, res, next) => {
+  try {
+    const jobs = await Promise.all(
+      getJobs().map(async (job) => {
+        const lastRun = await prisma.jobRun.findFirst({
+          where: { name: job.name },
+          orderBy: { startedAt: "desc" },
+        });
+
+        return {
+          name: job.name,
+          description: job.description,
+          schedule: job.schedule,
+          isRunning: isJobRunning(job.name),
+          lastRun,
+        };
+      })
+    );
+
+    res.json({
+      status: "success",
+      data: jobs,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get recent runs of a job
+router.get("/:name/runs", async (req, res, next) => {
+  try {
+    if (!getJob(req.params.name)) {
+      throw new AppError(404, "Job tidak ditemukan");
+    }
+
+    const runs = await prisma.jobRun.findMany({
+      where: { name: req.params.name },
+      orderBy: { startedAt: "desc" },
+      take: 20,
+    });
+
+    res.json({
+      status: "success",
+      data: runs,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Trigger a job manually
+router.post("/:name/run", async (req, res, next) => {
+  try {
+    if (!getJob(req.params.name)) {
+      throw new AppError(404, "Job tidak ditemukan");
+    }
+
+    const run = await runJob(req.params.name);
+    if (!run) {
+      throw new AppError(409, "Job sedang berjalan");
+    }
+
+    res.json({
+      status: "success",
+      data: run,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export const jobRouter = router;
@@ -4,6 +4,7 @@ import { prisma } from "../utils/prisma";
 import { AppError } from "../middleware/errorHandler";
 import { z } from "zod";
 import { PaymentService } from "../services/payment";
+import { handleInvoicePaymentNotification } from "../services/invoiceOnlinePayment";
 // @ts-ignore
 import rateLimit from "express-rate-limit";
 import { ReminderChannel, ReminderStatus, ReminderType } from "@prisma/client";
@@ -22,6 +23,16 @@ const createPaymentSchema = z.object({
   promoCode: z.string().nullable().optional(),
 });
 
+// Fields of a Midtrans notification that are checked, the rest are ignored
+const midtransNotificationSchema = z.object({
+  transaction_status: z.string(),
+  order_id: z.string(),
+  fraud_status: z.string().optional(),
+  status_code: z.string(),
+  gross_amount: z.string(),
+  signature_key: z.string(),
+});
+
 // Create payment
 router.post("/create", authenticate, async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -48,13 +59,13 @@ router.post("/create", authenticate, async (req: Request, res: Response, next: N
       data: {
         userId,
         amount: finalPrice,
-        status: finalPrice === 0 ? "SUCCESS" : "PENDING",
+        status: finalPrice.isZero() ? "SUCCESS" : "PENDING",
         promoCode: promoCode || null, // Ensure null if no promo
       },
     });
 
     // If price is 0 (free from promo), activate user immediately
-    if (finalPrice === 0) {
+    if (finalPrice.isZero()) {
       await prisma.user.update({
         where: { id: userId },
         data: { isActive: true },
@@ -122,6 +133,17 @@ router.post("/notification", async (req: Request, res: Response, next: NextFunct
   }
 });
 
+// Handle Midtrans notification for invoices paid to a business's own account
+router.post("/invoice-notification", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const notification = midtransNotificationSchema.parse(req.body);
+    const result = await handleInvoicePaymentNotification(notification);
+    res.json({ status: "success", data: result });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get payment status
 router.get("/status", authenticate, async (req: Request, res: Response, next: NextFunction) => {
   try {
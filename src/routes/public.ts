@@ -0,0 +1,225 @@
+import { Router } from "express";
+import rateLimit from "express-rate-limit";
+import { z } from "zod";
+import { AppError } from "../middleware/errorHandler";
+import {
+  findSharedInvoice,
+  getSharedInvoice,
+  getSharedInvoicePdf,
+} from "../services/invoiceShare";
+import { createInvoiceCheckout } from "../services/invoiceOnlinePayment";
+import {
+  assertAcceptsPaymentProof,
+  submitPaymentProof,
+} from "../services/paymentProof";
+import { respondToQuotation } from "../services/quotation";
+import { prisma } from "../utils/prisma";
+import { discardUploads, paymentProofUpload } from "../utils/upload";
+
+// Routes reachable without logging in, authorized by an unguessable token
+const router = Router();
+
+// Rate limit for public links - 100 requests per 15 minutes
+router.use(
+  rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: 100,
+    message: {
+      status: "error",
+      message: "Too many requests, please try again later",
+    },
+  })
+);
+
+// Rate limit for shared PDFs, which may need rendering - 10 per 15 minutes
+const pdfRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  message: {
+    status: "error",
+    message: "Too many requests, please try again later",
+  },
+});
+
+const rejectQuotationSchema = z.object({
+  reason: z.string().max(1000).nullable().optional(),
+});
+
+const paymentProofSchema = z.object({
+  // Multipart fields arrive as strings
+  amount: z.coerce.number().positive().optional(),
+  note: z.string().max(1000).optional(),
+});
+
+// View a quotation from the link sent to the customer
+router.get("/quotations/:token", async (req, res, next) => {
+  try {
+    const quotation = await prisma.quotation.findUnique({
+      where: { publicToken: req.params.token },
+      select: {
+        number: true,
+        date: true,
+        validUntil: true,
+        status: true,
+        subtotal: true,
+        discount: true,
+        taxRate: true,
+        tax: true,
+        total: true,
+        notes: true,
+        acceptedAt: true,
+        rejectedAt: true,
+        items: {
+          select: {
+            description: true,
+            quantity: true,
+            price: true,
+            discount: true,
+            amount: true,
+            taxRate: true,
+            taxExempt: true,
+          },
+        },
+        customer: {
+          select: { name: true },
+        },
+        user: {
+          select: {
+            businessName: true,
+            businessEmail: true,
+            businessPhone: true,
+            businessAddress: true,
+            businessLogo: true,
+          },
+        },
+      },
+    });
+
+    if (!quotation) {
+      throw new AppError(404, "Penawaran tidak ditemukan");
+    }
+
+    res.json({
+      status: "success",
+      data: quotation,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Accept a quotation
+router.post("/quotations/:token/accept", async (req, res, next) => {
+  try {
+    const quotation = await respondToQuotation(req.params.token, "accept");
+
+    res.json({
+      status: "success",
+      data: { number: quotation.number, status: quotation.status },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Reject a quotation
+router.post("/quotations/:token/reject", async (req, res, next) => {
+  try {
+    const { reason } = rejectQuotationSchema.parse(req.body || {});
+    const quotation = await respondToQuotation(
+      req.params.token,
+      "reject",
+      reason
+    );
+
+    res.json({
+      status: "success",
+      data: { number: quotation.number, status: quotation.status },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// View an invoice from the link shared with the customer
+router.get("/invoices/:token", async (req, res, next) => {
+  try {
+    const invoice = await getSharedInvoice(req.params.token);
+
+    res.json({
+      status: "success",
+      data: invoice,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Download the PDF of a shared invoice
+router.get("/invoices/:token/pdf", pdfRateLimit, async (req, res, next) => {
+  try {
+    const url = await getSharedInvoicePdf(req.params.token);
+
+    res.redirect(url);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Start an online payment of a shared invoice through the business's
+// Midtrans account
+router.post("/invoices/:token/pay", async (req, res, next) => {
+  try {
+    const checkout = await createInvoiceCheckout(req.params.token);
+
+    res.json({
+      status: "success",
+      data: checkout,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Upload a transfer receipt for a shared invoice, the business verifies it
+router.post(
+  "/invoices/:token/payment-proof",
+  async (req, res, next) => {
+    try {
+      // Resolve the link and check the invoice before accepting the file,
+      // the upload folder is named after the invoice
+      const { id } = await findSharedInvoice(req.params.token);
+      await assertAcceptsPaymentProof(id);
+
+      res.locals.invoiceId = id;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  },
+  paymentProofUpload.single("file"),
+  async (req, res, next) => {
+    try {
+      const data = paymentProofSchema.parse(req.body);
+
+      if (!req.file) {
+        throw new AppError(400, "File bukti pembayaran wajib diunggah");
+      }
+
+      const proof = await submitPaymentProof(res.locals.invoiceId, {
+        ...data,
+        url: req.file.path,
+      });
+
+      res.status(201).json({
+        status: "success",
+        data: proof,
+      });
+    } catch (error) {
+      await discardUploads([req.file]);
+      next(error);
+    }
+  }
+);
+
+export const publicRouter = router;
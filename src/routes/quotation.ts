@@ -0,0 +1,444 @@
+import { Prisma, QuotationStatus } from "@prisma/client";
+import { Router } from "express";
+import { z } from "zod";
+import { authenticate } from "../middleware/auth";
+import { AppError } from "../middleware/errorHandler";
+import {
+  calculateInvoiceTotals,
+  InvoiceTotals,
+  LineItemInput,
+  TotalsOptions,
+} from "../services/invoiceTotals";
+import {
+  allocateQuotationNumber,
+  convertQuotationToInvoice,
+} from "../services/quotation";
+import { sendQuotationEmail } from "../utils/email";
+import { generateQuotationPDF } from "../utils/pdf";
+import { prisma } from "../utils/prisma";
+
+const router = Router();
+
+const discountTypeSchema = z.enum(["PERCENTAGE", "FIXED"]).nullable();
+
+const quotationItemSchema = z.object({
+  description: z.string(),
+  quantity: z.number(),
+  price: z.number(),
+  discountType: discountTypeSchema.optional(),
+  discountValue: z.number().min(0).optional(),
+  // Null uses the quotation tax rate
+  taxRate: z.number().min(0).max(100).nullable().optional(),
+  taxExempt: z.boolean().optional(),
+});
+
+const createQuotationSchema = z.object({
+  customerId: z.string(),
+  date: z.coerce.date(),
+  validUntil: z.coerce.date(),
+  items: z.array(quotationItemSchema).min(1, "Minimal satu item"),
+  notes: z.string().optional(),
+  taxRate: z.number().min(0).max(100),
+  discountType: discountTypeSchema.optional(),
+  discountValue: z.number().min(0).optional(),
+});
+
+const updateQuotationSchema = z.object({
+  customerId: z.string().optional(),
+  date: z.coerce.date().optional(),
+  validUntil: z.coerce.date().optional(),
+  items: z.array(quotationItemSchema).min(1, "Minimal satu item").optional(),
+  notes: z.string().nullable().optional(),
+  taxRate: z.number().min(0).max(100).optional(),
+  discountType: discountTypeSchema.optional(),
+  discountValue: z.number().min(0).optional(),
+});
+
+const convertQuotationSchema = z.object({
+  date: z.coerce.date().optional(),
+  dueDate: z.coerce.date().optional(),
+});
+
+const getQuotationsQuerySchema = z.object({
+  page: z.string().transform(Number).default("1"),
+  limit: z.string().transform(Number).default("10"),
+  search: z.string().optional(),
+  status: z
+    .enum(["DRAFT", "SENT", "ACCEPTED", "REJECTED", "EXPIRED"])
+    .optional(),
+  customerId: z.string().optional(),
+});
+
+// Content can only be changed before the customer has answered
+const EDITABLE_STATUSES: QuotationStatus[] = ["DRAFT", "SENT"];
+
+const businessSelect = {
+  businessName: true,
+  businessEmail: true,
+  businessPhone: true,
+  businessAddress: true,
+  businessLogo: true,
+};
+
+router.use(authenticate);
+
+async function findQuotation(id: string, userId: string) {
+  const quotation = await prisma.quotation.findFirst({
+    where: { id, userId },
+    include: {
+      customer: true,
+      items: true,
+      user: {
+        select: businessSelect,
+      },
+      invoice: {
+        select: { id: true, number: true, status: true },
+      },
+    },
+  });
+
+  if (!quotation) {
+    throw new AppError(404, "Penawaran tidak ditemukan");
+  }
+
+  return quotation;
+}
+
+// Quotations are in IDR and follow the business's tax rounding rule
+async function getTotalsOptions(userId: string): Promise<TotalsOptions> {
+  const settings = await prisma.settings.findUnique({
+    where: { userId },
+    select: { taxRounding: true },
+  });
+
+  return { taxRounding: settings?.taxRounding };
+}
+
+// The stored fields of a line with its calculated amounts
+function toQuotationItem(
+  item: InvoiceTotals<LineItemInput>["items"][number]
+) {
+  return {
+    description: item.description,
+    quantity: item.quantity,
+    price: item.price,
+    discountType: item.discountType ?? null,
+    discountValue: item.discountValue ?? 0,
+    discount: item.discount,
+    amount: item.amount,
+    taxRate: item.taxRate ?? null,
+    taxExempt: item.taxExempt ?? false,
+    tax: item.tax,
+  };
+}
+
+async function assertCustomerOwnership(customerId: string, userId: string) {
+  const customer = await prisma.customer.findFirst({
+    where: { id: customerId, userId },
+    select: { id: true },
+  });
+
+  if (!customer) {
+    throw new AppError(404, "Pelanggan tidak ditemukan");
+  }
+}
+
+// Get all quotations
+router.get("/", async (req, res, next) => {
+  try {
+    const { page, limit, search, status, customerId } =
+      getQuotationsQuerySchema.parse(req.query);
+
+    const where: Prisma.QuotationWhereInput = {
+      userId: (req as any).user.id,
+      status,
+      customerId,
+    };
+
+    if (search) {
+      where.OR = [
+        { number: { contains: search, mode: "insensitive" } },
+        { customer: { name: { contains: search, mode: "insensitive" } } },
+      ];
+    }
+
+    const [total, quotations] = await Promise.all([
+      prisma.quotation.count({ where }),
+      prisma.quotation.findMany({
+        where,
+        include: {
+          customer: true,
+          invoice: {
+            select: { id: true, number: true },
+          },
+        },
+        orderBy: { date: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+    ]);
+
+    res.json({
+      status: "success",
+      data: {
+        quotations,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get single quotation
+router.get("/:id", async (req, res, next) => {
+  try {
+    const quotation = await findQuotation(req.params.id, (req as any).user.id);
+
+    res.json({
+      status: "success",
+      data: quotation,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create quotation
+router.post("/", async (req, res, next) => {
+  try {
+    const userId = (req as any).user.id;
+    const data = createQuotationSchema.parse(req.body);
+
+    await assertCustomerOwnership(data.customerId, userId);
+
+    const discountType = data.discountType ?? null;
+    const discountValue = data.discountValue ?? 0;
+    const { items, subtotal, discount, tax, total } = calculateInvoiceTotals(
+      data.items,
+      data.taxRate,
+      { type: discountType, value: discountValue },
+      await getTotalsOptions(userId)
+    );
+
+    const quotation = await prisma.$transaction(async (tx) => {
+      const number = await allocateQuotationNumber(tx, userId);
+
+      return tx.quotation.create({
+        data: {
+          number,
+          date: data.date,
+          validUntil: data.validUntil,
+          subtotal,
+          discountType,
+          discountValue,
+          discount,
+          taxRate: data.taxRate,
+          tax,
+          total,
+          notes: data.notes,
+          userId,
+          customerId: data.customerId,
+          items: {
+            create: items.map(toQuotationItem),
+          },
+        },
+        include: {
+          customer: true,
+          items: true,
+        },
+      });
+    });
+
+    res.json({
+      status: "success",
+      data: quotation,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update quotation
+router.patch("/:id", async (req, res, next) => {
+  try {
+    const userId = (req as any).user.id;
+    const data = updateQuotationSchema.parse(req.body);
+    const quotation = await findQuotation(req.params.id, userId);
+
+    if (!EDITABLE_STATUSES.includes(quotation.status)) {
+      throw new AppError(
+        400,
+        "Hanya penawaran draf atau terkirim yang dapat diubah"
+      );
+    }
+
+    if (data.customerId && data.customerId !== quotation.customerId) {
+      await assertCustomerOwnership(data.customerId, userId);
+    }
+
+    const totalsOptions = await getTotalsOptions(userId);
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const updateData: Prisma.QuotationUncheckedUpdateInput = {
+        customerId: data.customerId,
+        date: data.date,
+        validUntil: data.validUntil,
+        notes: data.notes,
+        taxRate: data.taxRate,
+        discountType: data.discountType,
+        discountValue: data.discountValue,
+      };
+
+      if (
+        data.items ||
+        data.taxRate !== undefined ||
+        data.discountType !== undefined ||
+        data.discountValue !== undefined
+      ) {
+        const { items, subtotal, discount, tax, total } =
+          calculateInvoiceTotals<LineItemInput>(
+            data.items || quotation.items,
+            data.taxRate ?? quotation.taxRate,
+            {
+              type:
+                data.discountType !== undefined
+                  ? data.discountType
+                  : quotation.discountType,
+              value: data.discountValue ?? quotation.discountValue,
+            },
+            totalsOptions
+          );
+
+        if (data.items) {
+          await tx.quotationItem.deleteMany({
+            where: { quotationId: quotation.id },
+          });
+          await tx.quotationItem.createMany({
+            data: items.map((item) => ({
+              ...toQuotationItem(item),
+              quotationId: quotation.id,
+            })),
+          });
+        }
+
+        Object.assign(updateData, { subtotal, discount, tax, total });
+      }
+
+      return tx.quotation.update({
+        where: { id: quotation.id },
+        data: updateData,
+        include: {
+          customer: true,
+          items: true,
+        },
+      });
+    });
+
+    res.json({
+      status: "success",
+      data: updated,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete quotation
+router.delete("/:id", async (req, res, next) => {
+  try {
+    const quotation = await findQuotation(req.params.id, (req as any).user.id);
+
+    if (quotation.invoice) {
+      throw new AppError(
+        400,
+        "Penawaran yang sudah dikonversi menjadi faktur tidak dapat dihapus"
+      );
+    }
+
+    await prisma.quotation.delete({
+      where: { id: quotation.id },
+    });
+
+    res.json({
+      status: "success",
+      data: null,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Generate quotation PDF
+router.post("/:id/print", async (req, res, next) => {
+  try {
+    const quotation = await findQuotation(req.params.id, (req as any).user.id);
+    const url = await generateQuotationPDF(quotation);
+
+    res.json({
+      success: true,
+      url,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Send quotation to the customer with the PDF and the accept/reject link
+router.post("/:id/send", async (req, res, next) => {
+  try {
+    const quotation = await findQuotation(req.params.id, (req as any).user.id);
+
+    if (!EDITABLE_STATUSES.includes(quotation.status)) {
+      throw new AppError(
+        400,
+        "Hanya penawaran draf atau terkirim yang dapat dikirim"
+      );
+    }
+
+    if (!quotation.customer.email) {
+      throw new AppError(400, "Pelanggan tidak memiliki alamat email");
+    }
+
+    const pdfUrl = await generateQuotationPDF(quotation);
+    await sendQuotationEmail(quotation, pdfUrl);
+
+    const updated = await prisma.quotation.update({
+      where: { id: quotation.id },
+      data: { status: "SENT", sentAt: new Date() },
+    });
+
+    res.json({
+      status: "success",
+      data: updated,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Convert quotation into an invoice with the next invoice number
+router.post("/:id/convert", async (req, res, next) => {
+  try {
+    const options = convertQuotationSchema.parse(req.body || {});
+    const invoice = await convertQuotationToInvoice(
+      (req as any).user.id,
+      req.params.id,
+      options
+    );
+
+    res.json({
+      status: "success",
+      data: invoice,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export const quotationRouter = router;
@@ -0,0 +1,306 @@
+import { Router } from "express";
+import { z } from "zod";
+import { authenticate } from "../middleware/auth";
+import { AppError } from "../middleware/errorHandler";
+import { computeNextRunDate } from "../services/recurringInvoice";
+import { isValidCurrency } from "../utils/currency";
+import { prisma } from "../utils/prisma";
+
+const router = Router();
+
+const discountTypeSchema = z.enum(["PERCENTAGE", "FIXED"]).nullable();
+
+const recurringItemSchema = z.object({
+  description: z.string(),
+  quantity: z.number(),
+  price: z.number(),
+  discountType: discountTypeSchema.optional(),
+  discountValue: z.number().min(0).optional(),
+  // Null uses the profile tax rate
+  taxRate: z.number().min(0).max(100).nullable().optional(),
+  taxExempt: z.boolean().optional(),
+});
+
+const currencySchema = z
+  .string()
+  .toUpperCase()
+  .refine(isValidCurrency, { message: "Kode mata uang tidak valid" });
+
+const createRecurringInvoiceSchema = z.object({
+  name: z.string().nullable().optional(),
+  customerId: z.string(),
+  items: z.array(recurringItemSchema).min(1, "Minimal satu item"),
+  taxRate: z.number().min(0).max(100).default(0),
+  discountType: discountTypeSchema.optional(),
+  discountValue: z.number().min(0).optional(),
+  // Defaults to the currency in settings
+  currency: currencySchema.optional(),
+  notes: z.string().nullable().optional(),
+  interval: z.enum(["WEEKLY", "MONTHLY", "YEARLY"]),
+  intervalCount: z.number().int().min(1).max(12).default(1),
+  paymentTermDays: z.number().int().min(0).max(365).default(14),
+  startDate: z.coerce.date(),
+  endDate: z.coerce
+    .date()
+    .nullable()
+    .optional()
+    .transform((val) => val ?? null),
+  autoSend: z.boolean().default(false),
+  isActive: z.boolean().default(true),
+});
+
+const updateRecurringInvoiceSchema = z.object({
+  name: z.string().nullable().optional(),
+  customerId: z.string().optional(),
+  items: z.array(recurringItemSchema).min(1, "Minimal satu item").optional(),
+  taxRate: z.number().min(0).max(100).optional(),
+  discountType: discountTypeSchema.optional(),
+  discountValue: z.number().min(0).optional(),
+  currency: currencySchema.optional(),
+  notes: z.string().nullable().optional(),
+  interval: z.enum(["WEEKLY", "MONTHLY", "YEARLY"]).optional(),
+  intervalCount: z.number().int().min(1).max(12).optional(),
+  paymentTermDays: z.number().int().min(0).max(365).optional(),
+  startDate: z.coerce.date().optional(),
+  // Null removes the end date
+  endDate: z.coerce.date().nullable().optional(),
+  autoSend: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+});
+
+const historyQuerySchema = z.object({
+  page: z.string().transform(Number).default("1"),
+  limit: z.string().transform(Number).default("10"),
+});
+
+router.use(authenticate);
+
+async function ensureCustomer(customerId: string, userId: string) {
+  const customer = await prisma.customer.findFirst({
+    where: { id: customerId, userId },
+    select: { id: true },
+  });
+
+  if (!customer) {
+    throw new AppError(404, "Pelanggan tidak ditemukan");
+  }
+}
+
+// Get all recurring invoice profiles
+router.get("/", async (req, res, next) => {
+  try {
+    const recurringInvoices = await prisma.recurringInvoice.findMany({
+      where: { userId: (req as any).user.id },
+      include: {
+        customer: true,
+        items: true,
+        _count: {
+          select: { invoices: true },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    res.json({
+      status: "success",
+      data: recurringInvoices,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get single recurring invoice profile
+router.get("/:id", async (req, res, next) => {
+  try {
+    const recurringInvoice = await prisma.recurringInvoice.findFirst({
+      where: {
+        id: req.params.id,
+        userId: (req as any).user.id,
+      },
+      include: {
+        customer: true,
+        items: true,
+        _count: {
+          select: { invoices: true },
+        },
+      },
+    });
+
+    if (!recurringInvoice) {
+      throw new AppError(404, "Faktur berulang tidak ditemukan");
+    }
+
+    res.json({
+      status: "success",
+      data: recurringInvoice,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get invoices generated from a recurring profile
+router.get("/:id/invoices", async (req, res, next) => {
+  try {
+    const { page, limit } = historyQuerySchema.parse(req.query);
+    const where = {
+      recurringInvoiceId: req.params.id,
+      userId: (req as any).user.id,
+    };
+
+    const [total, invoices] = await Promise.all([
+      prisma.invoice.count({ where }),
+      prisma.invoice.findMany({
+        where,
+        orderBy: { date: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+    ]);
+
+    res.json({
+      status: "success",
+      data: {
+        invoices,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create recurring invoice profile
+router.post("/", async (req, res, next) => {
+  try {
+    const userId = (req as any).user.id;
+    const { items, ...data } = createRecurringInvoiceSchema.parse(req.body);
+
+    if (data.endDate && data.endDate < data.startDate) {
+      throw new AppError(400, "Tanggal akhir harus setelah tanggal mulai");
+    }
+
+    await ensureCustomer(data.customerId, userId);
+
+    if (!data.currency) {
+      const settings = await prisma.settings.findUnique({
+        where: { userId },
+        select: { currency: true },
+      });
+      data.currency = settings?.currency;
+    }
+
+    const recurringInvoice = await prisma.recurringInvoice.create({
+      data: {
+        ...data,
+        userId,
+        nextRunDate: computeNextRunDate(data),
+        items: {
+          create: items,
+        },
+      },
+      include: {
+        customer: true,
+        items: true,
+      },
+    });
+
+    res.json({
+      status: "success",
+      data: recurringInvoice,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update recurring invoice profile
+router.patch("/:id", async (req, res, next) => {
+  try {
+    const userId = (req as any).user.id;
+    const { items, ...data } = updateRecurringInvoiceSchema.parse(req.body);
+
+    const existing = await prisma.recurringInvoice.findFirst({
+      where: { id: req.params.id, userId },
+    });
+
+    if (!existing) {
+      throw new AppError(404, "Faktur berulang tidak ditemukan");
+    }
+
+    if (data.customerId) {
+      await ensureCustomer(data.customerId, userId);
+    }
+
+    const schedule = {
+      startDate: data.startDate || existing.startDate,
+      endDate: data.endDate !== undefined ? data.endDate : existing.endDate,
+      interval: data.interval || existing.interval,
+      intervalCount: data.intervalCount || existing.intervalCount,
+    };
+
+    if (schedule.endDate && schedule.endDate < schedule.startDate) {
+      throw new AppError(400, "Tanggal akhir harus setelah tanggal mulai");
+    }
+
+    const recurringInvoice = await prisma.$transaction(async (tx) => {
+      if (items) {
+        await tx.recurringInvoiceItem.deleteMany({
+          where: { recurringInvoiceId: existing.id },
+        });
+      }
+
+      return tx.recurringInvoice.update({
+        where: { id: existing.id },
+        data: {
+          ...data,
+          // Re-plan from the last generated invoice in case the schedule changed
+          nextRunDate: computeNextRunDate(schedule, existing.lastRunDate),
+          items: items ? { create: items } : undefined,
+        },
+        include: {
+          customer: true,
+          items: true,
+        },
+      });
+    });
+
+    res.json({
+      status: "success",
+      data: recurringInvoice,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete recurring invoice profile, generated invoices are kept
+router.delete("/:id", async (req, res, next) => {
+  try {
+    const { count } = await prisma.recurringInvoice.deleteMany({
+      where: {
+        id: req.params.id,
+        userId: (req as any).user.id,
+      },
+    });
+
+    if (count === 0) {
+      throw new AppError(404, "Faktur berulang tidak ditemukan");
+    }
+
+    res.json({
+      status: "success",
+      data: null,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export const recurringInvoiceRouter = router;
@@ -3,14 +3,107 @@ import { z } from "zod";
 import { authenticate } from "../middleware/auth";
 import { prisma } from "../utils/prisma";
 import { AppError } from "../middleware/errorHandler";
+import { isValidTimeZone } from "../utils/timezone";
+import { BASE_CURRENCY, isValidCurrency } from "../utils/currency";
+import { encryptSecret } from "../utils/crypto";
+import { readQrCode, validateQrisPayload } from "../utils/qris";
+import { qrImageUpload } from "../utils/upload";
+import { PDF_FONT_NAMES, PDF_HIDEABLE_FIELDS } from "../utils/pdf";
+import { previewInvoicePdf } from "../services/invoicePdf";
+import {
+  previewInvoiceNumber,
+  validateInvoiceNumberFormat,
+} from "../services/invoiceNumber";
 
 const router = Router();
 
-const updateSettingsSchema = z.object({
+// Layout and brand styling of invoice PDFs
+const pdfStyleSchema = z.object({
+  pdfTemplate: z.enum(["CLASSIC", "MODERN", "COMPACT", "THERMAL"]).optional(),
+  brandColor: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, "Warna harus dalam format #RRGGBB")
+    .nullable()
+    .optional(),
+  brandFont: z.enum(PDF_FONT_NAMES).nullable().optional(),
+  pdfFooterText: z.string().trim().max(500).nullable().optional(),
+  pdfHiddenFields: z.array(z.enum(PDF_HIDEABLE_FIELDS)).optional(),
+});
+
+const updateSettingsSchema = pdfStyleSchema.extend({
   invoicePrefix: z.string().optional(),
+  invoiceNumberFormat: z.string().trim().min(1).max(64).optional(),
+  invoiceNumberReset: z.enum(["NEVER", "YEARLY", "MONTHLY"]).optional(),
+  creditNotePrefix: z.string().optional(),
+  quotationPrefix: z.string().optional(),
   taxRate: z.number().min(0).max(100).optional(),
+  taxRounding: z.enum(["PER_LINE", "PER_INVOICE"]).optional(),
+  currency: z
+    .string()
+    .toUpperCase()
+    .refine(isValidCurrency, { message: "Kode mata uang tidak valid" })
+    .optional(),
+  timezone: z
+    .string()
+    .refine(isValidTimeZone, { message: "Zona waktu tidak valid" })
+    .optional(),
+  // Midtrans merchant keys for online invoice payments, null turns it off
+  midtransServerKey: z.string().trim().min(1).nullable().optional(),
+  midtransClientKey: z.string().trim().min(1).nullable().optional(),
+  midtransIsProduction: z.boolean().optional(),
+  // Static QRIS payload as read from the business's QR code, null removes it
+  qrisPayload: z
+    .string()
+    .trim()
+    .superRefine((val, ctx) => {
+      const message = validateQrisPayload(val);
+      if (message) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+      }
+    })
+    .nullable()
+    .optional(),
+});
+
+const reminderRuleSchema = z.object({
+  name: z.string().nullable().optional(),
+  offsetDays: z.number().int().min(-365).max(365),
+  repeatEveryDays: z.number().int().min(1).max(365).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+const updateReminderRuleSchema = reminderRuleSchema.partial();
+
+const exchangeRateSchema = z.object({
+  currency: z
+    .string()
+    .toUpperCase()
+    .refine(isValidCurrency, { message: "Kode mata uang tidak valid" })
+    .refine((val) => val !== BASE_CURRENCY, {
+      message: `Kurs ${BASE_CURRENCY} selalu 1`,
+    }),
+  rate: z.number().positive(),
+  date: z.coerce.date(),
+});
+
+const invoiceNumberPreviewQuerySchema = z.object({
+  invoicePrefix: z.string().optional(),
+  invoiceNumberFormat: z.string().trim().min(1).max(64).optional(),
+  invoiceNumberReset: z.enum(["NEVER", "YEARLY", "MONTHLY"]).optional(),
 });
 
+const exchangeRateQuerySchema = z.object({
+  currency: z.string().toUpperCase().optional(),
+});
+
+// The stored Midtrans server key is never sent back, only whether it is set
+function toSettingsResponse<T extends { midtransServerKey: string | null }>({
+  midtransServerKey,
+  ...settings
+}: T) {
+  return { ...settings, midtransServerKeySet: midtransServerKey !== null };
+}
+
 router.get("/", authenticate, async (req, res) => {
   try {
     const settings = await prisma.settings.findUnique({
@@ -23,7 +116,7 @@ router.get("/", authenticate, async (req, res) => {
 
     res.json({
       success: true,
-      data: settings,
+      data: toSettingsResponse(settings),
     });
   } catch (error) {
     console.error("Error fetching settings:", error);
@@ -35,14 +128,35 @@ router.patch("/", authenticate, async (req, res) => {
   try {
     const data = updateSettingsSchema.parse(req.body);
 
+    // Check the format against the reset rule it will be used with
+    if (data.invoiceNumberFormat || data.invoiceNumberReset) {
+      const current = await prisma.settings.findUnique({
+        where: { userId: (req as any).user.id },
+        select: { invoiceNumberFormat: true, invoiceNumberReset: true },
+      });
+      const message = validateInvoiceNumberFormat(
+        data.invoiceNumberFormat ?? current?.invoiceNumberFormat ?? "",
+        data.invoiceNumberReset ?? current?.invoiceNumberReset ?? "NEVER"
+      );
+
+      if (message) {
+        return res.status(400).json({ success: false, message });
+      }
+    }
+
     const settings = await prisma.settings.update({
       where: { userId: (req as any).user.id },
-      data,
+      data: {
+        ...data,
+        midtransServerKey: data.midtransServerKey
+          ? encryptSecret(data.midtransServerKey)
+          : data.midtransServerKey,
+      },
     });
 
     res.json({
       success: true,
-      data: settings,
+      data: toSettingsResponse(settings),
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -54,6 +168,81 @@ router.patch("/", authenticate, async (req, res) => {
   }
 });
 
+// Set the QRIS payload from an image of the business's static QR code
+router.post(
+  "/qris",
+  authenticate,
+  qrImageUpload.single("file"),
+  async (req, res, next) => {
+    try {
+      if (!req.file) {
+        throw new AppError(400, "Gambar QRIS wajib diunggah");
+      }
+
+      let qrisPayload: string | null;
+      try {
+        qrisPayload = readQrCode(req.file.buffer, req.file.mimetype);
+      } catch {
+        throw new AppError(400, "Gambar tidak dapat dibaca");
+      }
+
+      if (!qrisPayload) {
+        throw new AppError(400, "Kode QR tidak ditemukan pada gambar");
+      }
+
+      const message = validateQrisPayload(qrisPayload);
+      if (message) {
+        throw new AppError(400, message);
+      }
+
+      const settings = await prisma.settings.update({
+        where: { userId: (req as any).user.id },
+        data: { qrisPayload },
+      });
+
+      res.json({
+        success: true,
+        data: toSettingsResponse(settings),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Render a sample invoice PDF, optionally with unsaved template and brand
+// settings
+router.post("/pdf-preview", authenticate, async (req, res, next) => {
+  try {
+    const overrides = pdfStyleSchema.parse(req.body || {});
+    const pdf = await previewInvoicePdf((req as any).user.id, overrides);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", 'inline; filename="preview.pdf"');
+    res.send(pdf);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Preview the next invoice number, optionally with unsaved numbering settings
+router.get("/invoice-number/preview", authenticate, async (req, res, next) => {
+  try {
+    const overrides = invoiceNumberPreviewQuerySchema.parse(req.query);
+    const preview = await previewInvoiceNumber(
+      (req as any).user.id,
+      overrides
+    );
+
+    res.json({
+      success: true,
+      data: preview,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get license status
 router.get("/license", authenticate, async (req, res, next) => {
   try {
@@ -82,4 +271,188 @@ router.get("/license", authenticate, async (req, res, next) => {
   }
 });
 
+// Get automatic reminder rules
+router.get("/reminder-rules", authenticate, async (req, res, next) => {
+  try {
+    const rules = await prisma.reminderRule.findMany({
+      where: { settings: { userId: (req as any).user.id } },
+      orderBy: { offsetDays: "asc" },
+    });
+
+    res.json({
+      success: true,
+      data: rules,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create automatic reminder rule
+router.post("/reminder-rules", authenticate, async (req, res, next) => {
+  try {
+    const data = reminderRuleSchema.parse(req.body);
+
+    const settings = await prisma.settings.findUnique({
+      where: { userId: (req as any).user.id },
+      select: { id: true },
+    });
+
+    if (!settings) {
+      throw new AppError(404, "Pengaturan tidak ditemukan");
+    }
+
+    const rule = await prisma.reminderRule.create({
+      data: {
+        ...data,
+        settingsId: settings.id,
+      },
+    });
+
+    res.json({
+      success: true,
+      data: rule,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update automatic reminder rule
+router.patch("/reminder-rules/:id", authenticate, async (req, res, next) => {
+  try {
+    const data = updateReminderRuleSchema.parse(req.body);
+
+    const existingRule = await prisma.reminderRule.findFirst({
+      where: {
+        id: req.params.id,
+        settings: { userId: (req as any).user.id },
+      },
+    });
+
+    if (!existingRule) {
+      throw new AppError(404, "Aturan pengingat tidak ditemukan");
+    }
+
+    const rule = await prisma.reminderRule.update({
+      where: { id: existingRule.id },
+      data,
+    });
+
+    res.json({
+      success: true,
+      data: rule,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete automatic reminder rule
+router.delete("/reminder-rules/:id", authenticate, async (req, res, next) => {
+  try {
+    const { count } = await prisma.reminderRule.deleteMany({
+      where: {
+        id: req.params.id,
+        settings: { userId: (req as any).user.id },
+      },
+    });
+
+    if (count === 0) {
+      throw new AppError(404, "Aturan pengingat tidak ditemukan");
+    }
+
+    res.json({
+      success: true,
+      message: "Aturan pengingat berhasil dihapus",
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get manually entered exchange rates, newest first
+router.get("/exchange-rates", authenticate, async (req, res, next) => {
+  try {
+    const { currency } = exchangeRateQuerySchema.parse(req.query);
+
+    const exchangeRates = await prisma.exchangeRate.findMany({
+      where: {
+        settings: { userId: (req as any).user.id },
+        currency,
+      },
+      orderBy: [{ currency: "asc" }, { date: "desc" }],
+    });
+
+    res.json({
+      success: true,
+      data: exchangeRates,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Enter the exchange rate to IDR for a currency from a date onwards
+router.post("/exchange-rates", authenticate, async (req, res, next) => {
+  try {
+    const data = exchangeRateSchema.parse(req.body);
+
+    const settings = await prisma.settings.findUnique({
+      where: { userId: (req as any).user.id },
+      select: { id: true },
+    });
+
+    if (!settings) {
+      throw new AppError(404, "Pengaturan tidak ditemukan");
+    }
+
+    // Entering a rate for the same day again corrects it
+    const exchangeRate = await prisma.exchangeRate.upsert({
+      where: {
+        settingsId_currency_date: {
+          settingsId: settings.id,
+          currency: data.currency,
+          date: data.date,
+        },
+      },
+      create: {
+        ...data,
+        settingsId: settings.id,
+      },
+      update: { rate: data.rate },
+    });
+
+    res.json({
+      success: true,
+      data: exchangeRate,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete exchange rate
+router.delete("/exchange-rates/:id", authenticate, async (req, res, next) => {
+  try {
+    const { count } = await prisma.exchangeRate.deleteMany({
+      where: {
+        id: req.params.id,
+        settings: { userId: (req as any).user.id },
+      },
+    });
+
+    if (count === 0) {
+      throw new AppError(404, "Kurs tidak ditemukan");
+    }
+
+    res.json({
+      success: true,
+      message: "Kurs berhasil dihapus",
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export const settingRouter = router; 
\ No newline at end of file
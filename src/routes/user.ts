@@ -4,43 +4,10 @@ import { prisma } from "../utils/prisma";
 import { authenticate } from "../middleware/auth";
 import { AppError } from "../middleware/errorHandler";
 import bcrypt from "bcryptjs";
-import { CloudinaryStorage } from "multer-storage-cloudinary";
-import multer from "multer";
-import { v2 as cloudinary } from "cloudinary";
+import { logoUpload } from "../utils/upload";
 
 const router = Router();
 
-// Configure Cloudinary
-cloudinary.config({
-  cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
-  api_key: process.env.CLOUDINARY_API_KEY,
-  api_secret: process.env.CLOUDINARY_API_SECRET,
-});
-
-// Configure multer with Cloudinary storage
-const storage = new CloudinaryStorage({
-  cloudinary: cloudinary,
-  params: async (req: Request, file: Express.Multer.File) => {
-    const currentDate = new Date();
-    const year = currentDate.getFullYear();
-    const month = String(currentDate.getMonth() + 1).padStart(2, "0");
-    const userId = (req as any).user.id;
-
-    return {
-      folder: `fakturly/settings/profile/${year}/${month}/${userId}`,
-      allowed_formats: ["jpg", "jpeg", "png"],
-      transformation: [
-        { width: 500, height: 500, crop: "limit" },
-        { quality: "auto" },
-        { fetch_format: "auto" },
-      ],
-      public_id: `logo-${Date.now()}`,
-    };
-  },
-});
-
-const upload = multer({ storage });
-
 const updatePasswordSchema = z.object({
   currentPassword: z.string().optional(),
   newPassword: z.string().min(8, "Kata sandi minimal 8 karakter"),
@@ -237,7 +204,7 @@ router.get("/active-count", async (req, res) => {
 router.post(
   "/profile/logo",
   authenticate,
-  upload.single("logo"),
+  logoUpload.single("logo"),
   async (req, res, next) => {
     try {
       if (!req.file) {
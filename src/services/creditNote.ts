@@ -0,0 +1,193 @@
+import { Prisma } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import { money, roundMoney } from "../utils/money";
+import { prisma } from "../utils/prisma";
+import { calculateInvoiceTotals, effectiveTaxRate } from "./invoiceTotals";
+
+type PrismaTx = Prisma.TransactionClient;
+
+export interface CreditNoteInput {
+  invoiceId: string;
+  date?: Date;
+  reason?: string | null;
+  // Omit to credit everything that has not been credited yet
+  items?: { invoiceItemId: string; quantity: number }[];
+}
+
+// Reserve the next credit note number, separate from the invoice series
+async function allocateCreditNoteNumber(
+  tx: PrismaTx,
+  userId: string
+): Promise<string> {
+  const settings = await tx.settings.findUnique({
+    where: { userId },
+    select: { id: true },
+  });
+
+  if (!settings) {
+    throw new AppError(400, "User settings not found");
+  }
+
+  // The increment is atomic, so concurrent requests get distinct numbers
+  const { creditNotePrefix, nextCreditNoteNumber } = await tx.settings.update({
+    where: { id: settings.id },
+    data: { nextCreditNoteNumber: { increment: 1 } },
+    select: { creditNotePrefix: true, nextCreditNoteNumber: true },
+  });
+
+  return `${creditNotePrefix || "CN"}${String(
+    nextCreditNoteNumber - 1
+  ).padStart(5, "0")}`;
+}
+
+export async function createCreditNote(userId: string, data: CreditNoteInput) {
+  return prisma.$transaction(async (tx) => {
+    const invoice = await tx.invoice.findFirst({
+      where: { id: data.invoiceId, userId },
+      include: {
+        items: true,
+        user: {
+          select: {
+            settings: {
+              select: { taxRounding: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!invoice) {
+      throw new AppError(404, "Faktur tidak ditemukan");
+    }
+
+    // Only money that was received can be credited, revenue never included
+    // an invoice cancelled before it was paid
+    if (
+      invoice.status !== "PAID" &&
+      !(invoice.status === "CANCELLED" && invoice.paidAt)
+    ) {
+      throw new AppError(
+        400,
+        "Nota kredit hanya dapat dibuat untuk faktur yang sudah lunas atau dibatalkan setelah lunas"
+      );
+    }
+
+    // Taking the number locks the user's settings row until this credit note
+    // is saved, so concurrent requests read each other's credited lines below
+    const number = await allocateCreditNoteNumber(tx, userId);
+
+    const creditedItems = await tx.creditNoteItem.findMany({
+      where: { creditNote: { invoiceId: invoice.id } },
+      select: { invoiceItemId: true, quantity: true },
+    });
+
+    // Quantity per invoice line that is still available to credit
+    const remaining = new Map(
+      invoice.items.map((item) => [item.id, item.quantity])
+    );
+    for (const item of creditedItems) {
+      if (item.invoiceItemId && remaining.has(item.invoiceItemId)) {
+        remaining.set(
+          item.invoiceItemId,
+          remaining.get(item.invoiceItemId)! - item.quantity
+        );
+      }
+    }
+
+    const requested = new Map<string, number>();
+    if (data.items) {
+      for (const item of data.items) {
+        if (!remaining.has(item.invoiceItemId)) {
+          throw new AppError(
+            400,
+            `Item ${item.invoiceItemId} tidak ditemukan pada faktur`
+          );
+        }
+        requested.set(
+          item.invoiceItemId,
+          (requested.get(item.invoiceItemId) || 0) + item.quantity
+        );
+      }
+    } else {
+      remaining.forEach((quantity, invoiceItemId) =>
+        requested.set(invoiceItemId, quantity)
+      );
+    }
+
+    const lines = [];
+    for (const invoiceItem of invoice.items) {
+      const quantity = requested.get(invoiceItem.id) || 0;
+      if (quantity <= 0) {
+        continue;
+      }
+
+      if (quantity > remaining.get(invoiceItem.id)!) {
+        throw new AppError(
+          400,
+          `Jumlah kredit untuk "${invoiceItem.description}" melebihi sisa yang dapat dikreditkan`
+        );
+      }
+
+      // Credit what the customer actually paid per unit: after the line
+      // discount, the line's share of the invoice discount and at its tax rate
+      const discountShare = invoice.subtotal.gt(0)
+        ? invoiceItem.amount.dividedBy(invoice.subtotal).times(invoice.discount)
+        : money(0);
+
+      lines.push({
+        invoiceItemId: invoiceItem.id,
+        description: invoiceItem.description,
+        quantity,
+        price: roundMoney(
+          invoiceItem.amount
+            .minus(discountShare)
+            .dividedBy(invoiceItem.quantity),
+          invoice.currency
+        ),
+        taxRate: effectiveTaxRate(invoiceItem, invoice.taxRate),
+      });
+    }
+
+    if (lines.length === 0) {
+      throw new AppError(400, "Tidak ada item yang dapat dikreditkan");
+    }
+
+    const { items, subtotal, tax, total } = calculateInvoiceTotals(
+      lines,
+      invoice.taxRate,
+      null,
+      {
+        currency: invoice.currency,
+        taxRounding: invoice.user.settings?.taxRounding,
+      }
+    );
+
+    return tx.creditNote.create({
+      data: {
+        number,
+        date: data.date || new Date(),
+        reason: data.reason,
+        subtotal,
+        taxRate: invoice.taxRate,
+        tax,
+        total,
+        currency: invoice.currency,
+        exchangeRate: invoice.exchangeRate,
+        userId,
+        invoiceId: invoice.id,
+        items: {
+          create: items.map((item) => ({
+            invoiceItemId: item.invoiceItemId,
+            description: item.description,
+            quantity: item.quantity,
+            price: item.price,
+            amount: item.amount,
+          })),
+        },
+      },
+      include: {
+        items: true,
+      },
+    });
+  });
+}
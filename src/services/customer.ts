@@ -0,0 +1,21 @@
+import { prisma } from "../utils/prisma";
+
+/**
+ * Finds the customers of a business that already use one of the given
+ * emails. Creating or editing a customer allows only one customer per email
+ * address; only an import with onDuplicate CREATE may add another.
+ * @param excludeId Customer being edited, left out of the check
+ */
+export function findCustomersByEmail(
+  userId: string,
+  emails: string[],
+  excludeId?: string
+) {
+  return prisma.customer.findMany({
+    where: {
+      userId,
+      email: { in: emails },
+      ...(excludeId && { NOT: { id: excludeId } }),
+    },
+  });
+}
@@ -0,0 +1,105 @@
+import { InvoiceStatus } from "@prisma/client";
+import { Writable } from "stream";
+import { BASE_CURRENCY, toBaseCurrency } from "../utils/currency";
+import { createCsvWriter } from "../utils/csv";
+import { Money, roundMoney, sumMoney } from "../utils/money";
+import { prisma } from "../utils/prisma";
+import { withBalances } from "./invoicePayment";
+
+// Customers are read in pages of this size so memory use stays flat
+const EXPORT_BATCH_SIZE = 500;
+
+// Invoices that are issued and still waiting for payment
+const OPEN_STATUSES: InvoiceStatus[] = [
+  "UNPAID",
+  "PARTIALLY_PAID",
+  "PENDING_VERIFICATION",
+  "OVERDUE",
+];
+
+const CUSTOMER_HEADERS = [
+  "Nama",
+  "Email",
+  "Telepon",
+  "Alamat",
+  "Catatan",
+  "Jumlah Faktur",
+  `Sisa Tagihan (${BASE_CURRENCY})`,
+];
+
+// Unpaid balance per customer, converted to the base currency
+async function outstandingBalances(
+  customerIds: string[]
+): Promise<Map<string, Money>> {
+  const invoices = await withBalances(
+    await prisma.invoice.findMany({
+      where: { customerId: { in: customerIds }, status: { in: OPEN_STATUSES } },
+      select: { id: true, customerId: true, total: true, exchangeRate: true },
+    })
+  );
+  const balances = new Map<string, Money[]>();
+
+  for (const invoice of invoices) {
+    balances.set(invoice.customerId, [
+      ...(balances.get(invoice.customerId) ?? []),
+      toBaseCurrency(invoice.balanceDue, invoice.exchangeRate),
+    ]);
+  }
+
+  return new Map(
+    Array.from(balances, ([customerId, amounts]) => [
+      customerId,
+      roundMoney(sumMoney(amounts), BASE_CURRENCY),
+    ])
+  );
+}
+
+/**
+ * Streams all customers of a business as CSV, with their number of
+ * invoices and what they still owe on open invoices. The columns match
+ * the customer import.
+ * @param stream Destination, e.g. the HTTP response
+ */
+export async function exportCustomers(
+  stream: Writable,
+  userId: string
+): Promise<void> {
+  const writer = createCsvWriter(stream);
+  await writer.write(CUSTOMER_HEADERS);
+
+  for (let skip = 0; ; skip += EXPORT_BATCH_SIZE) {
+    const customers = await prisma.customer.findMany({
+      where: { userId },
+      include: {
+        _count: {
+          select: { invoices: true },
+        },
+      },
+      // The id keeps the order stable between pages
+      orderBy: [{ name: "asc" }, { id: "asc" }],
+      skip,
+      take: EXPORT_BATCH_SIZE,
+    });
+    const balances = await outstandingBalances(
+      customers.map((customer) => customer.id)
+    );
+
+    for (const customer of customers) {
+      await writer.write([
+        customer.name,
+        customer.email,
+        customer.phone,
+        customer.address,
+        customer.notes,
+        customer._count.invoices,
+        (balances.get(customer.id) ?? 0).toString(),
+      ]);
+    }
+
+    if (customers.length < EXPORT_BATCH_SIZE) {
+      break;
+    }
+  }
+
+  await writer.end();
+}
@@ -0,0 +1,301 @@
+import { z } from "zod";
+import { AppError } from "../middleware/errorHandler";
+import { mapCsvColumns, parseCsv } from "../utils/csv";
+import { prisma } from "../utils/prisma";
+import { isVCard, parseVCards, VCardContact } from "../utils/vcard";
+import { findCustomersByEmail } from "./customer";
+
+// Header names recognised for each field, compared case-insensitively. The
+// Indonesian names match the columns written by the customer export.
+const IMPORT_COLUMNS = {
+  name: ["nama", "nama pelanggan", "pelanggan", "name", "customer"],
+  email: ["email", "e-mail"],
+  phone: ["telepon", "no. telepon", "no hp", "phone"],
+  address: ["alamat", "address"],
+  notes: ["catatan", "notes"],
+};
+
+export type CustomerImportField = keyof typeof IMPORT_COLUMNS;
+
+export const CUSTOMER_IMPORT_FIELDS = Object.keys(IMPORT_COLUMNS) as [
+  CustomerImportField,
+  ...CustomerImportField[]
+];
+
+// What happens to a row whose email is already used by a customer: it is
+// left out, updates that customer, or is added as another customer
+export type DuplicateCustomerAction = "SKIP" | "UPDATE" | "CREATE";
+
+export interface CustomerImportOptions {
+  // Only validate and report, nothing is saved
+  dryRun: boolean;
+  onDuplicate: DuplicateCustomerAction;
+  // Header in a CSV file for a field, overrides the recognised names
+  mapping?: Partial<Record<CustomerImportField, string>>;
+}
+
+export interface CustomerImportIssue {
+  // Line in a CSV file with the header as row 1, or card number in a vCard
+  row: number;
+  column?: string;
+  message: string;
+}
+
+export interface CustomerImportRow {
+  row: number;
+  action: "CREATE" | "UPDATE" | "SKIP";
+  name: string;
+  email: string | null;
+  // The existing customer for updated and skipped rows
+  customerId?: string;
+}
+
+export interface CustomerImportReport {
+  dryRun: boolean;
+  valid: boolean;
+  format: "csv" | "vcard";
+  rows: number;
+  // Header used for each recognised field, CSV only
+  columns: Partial<Record<CustomerImportField, string>>;
+  ignoredColumns: string[];
+  customers: CustomerImportRow[];
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: CustomerImportIssue[];
+}
+
+// Most rows a single file may contain
+export const CUSTOMER_IMPORT_ROW_LIMIT = 10000;
+
+// Large files are saved in one transaction, allow it to run long
+const IMPORT_TRANSACTION_TIMEOUT = 5 * 60 * 1000;
+
+const emailSchema = z.string().email();
+
+type ContactRow = Omit<VCardContact, "email"> & {
+  row: number;
+  email: string | null;
+};
+
+// Reads either format into the same rows, CSV columns through the mapping
+async function readContacts(
+  text: string,
+  options: CustomerImportOptions,
+  report: CustomerImportReport
+): Promise<ContactRow[]> {
+  if (isVCard(text)) {
+    report.format = "vcard";
+
+    return parseVCards(text).map((contact, index) => ({
+      ...contact,
+      row: index + 1,
+      email: contact.email || null,
+    }));
+  }
+
+  const [header, ...rows] = await parseCsv(text).catch(() => {
+    throw new AppError(400, "File CSV tidak dapat dibaca");
+  });
+
+  if (!header) {
+    return [];
+  }
+
+  const { columns, ignored, missing, cell } = mapCsvColumns(
+    header,
+    IMPORT_COLUMNS,
+    options.mapping
+  );
+  report.columns = columns;
+  report.ignoredColumns = ignored;
+
+  for (const column of missing) {
+    report.errors.push({
+      row: 1,
+      column,
+      message: `Kolom "${column}" tidak ditemukan`,
+    });
+  }
+  if (!columns.name && !columns.email) {
+    report.errors.push({
+      row: 1,
+      message: "Kolom nama atau email pelanggan wajib ada",
+    });
+  }
+
+  return rows.map((values, index) => ({
+    row: index + 2,
+    name: cell(values, "name"),
+    email: cell(values, "email") || null,
+    phone: cell(values, "phone"),
+    address: cell(values, "address"),
+    notes: cell(values, "notes"),
+  }));
+}
+
+/**
+ * Imports customers from a CSV or vCard file. A row whose email already
+ * belongs to a customer is skipped, updates that customer, or with
+ * onDuplicate CREATE is added as another customer with the same email.
+ * Updates only overwrite fields that are filled in the file.
+ *
+ * The whole file is validated first. A dry run only returns the report;
+ * otherwise everything is saved in one transaction, or nothing if any row
+ * has an error.
+ */
+export async function importCustomers(
+  userId: string,
+  text: string,
+  options: CustomerImportOptions
+): Promise<CustomerImportReport> {
+  const report: CustomerImportReport = {
+    dryRun: options.dryRun,
+    valid: false,
+    format: "csv",
+    rows: 0,
+    columns: {},
+    ignoredColumns: [],
+    customers: [],
+    created: 0,
+    updated: 0,
+    skipped: 0,
+    errors: [],
+  };
+  const contacts = await readContacts(text, options, report);
+  report.rows = contacts.length;
+
+  if (contacts.length === 0) {
+    throw new AppError(400, "File tidak berisi data pelanggan");
+  }
+  if (contacts.length > CUSTOMER_IMPORT_ROW_LIMIT) {
+    throw new AppError(
+      400,
+      `Maksimal ${CUSTOMER_IMPORT_ROW_LIMIT} pelanggan per impor, file berisi ${contacts.length}`
+    );
+  }
+  if (report.errors.length > 0) {
+    return finish(report);
+  }
+
+  const error = (row: number, message: string, field?: CustomerImportField) =>
+    report.errors.push({
+      row,
+      column: field && (report.columns[field] ?? field),
+      message,
+    });
+
+  const emails = contacts.flatMap((contact) =>
+    contact.email ? [contact.email] : []
+  );
+  const existing = new Map(
+    (await findCustomersByEmail(userId, emails)).map((customer) => [
+      customer.email,
+      customer,
+    ])
+  );
+  const rowsByEmail = new Map<string, number>();
+
+  for (const contact of contacts) {
+    const errorCount = report.errors.length;
+    const current = contact.email ? existing.get(contact.email) : undefined;
+    // CREATE deliberately breaks the one-customer-per-email rule that
+    // POST /customers enforces, the business asked for a second customer
+    const action = !current ? "CREATE" : options.onDuplicate;
+
+    if (contact.email) {
+      const firstRow = rowsByEmail.get(contact.email);
+
+      if (!emailSchema.safeParse(contact.email).success) {
+        error(contact.row, "Email tidak valid", "email");
+      } else if (firstRow) {
+        error(contact.row, `Email sama dengan baris ${firstRow}`, "email");
+      } else {
+        rowsByEmail.set(contact.email, contact.row);
+      }
+    }
+    if (!contact.name && action === "CREATE") {
+      error(contact.row, "Nama pelanggan wajib diisi", "name");
+    }
+
+    if (report.errors.length > errorCount) {
+      continue;
+    }
+
+    report.customers.push({
+      row: contact.row,
+      action,
+      name: contact.name || current!.name,
+      email: contact.email,
+      customerId: action === "CREATE" ? undefined : current?.id,
+    });
+  }
+
+  const byAction = (action: CustomerImportRow["action"]) =>
+    report.customers.filter((customer) => customer.action === action);
+  report.created = byAction("CREATE").length;
+  report.updated = byAction("UPDATE").length;
+  report.skipped = byAction("SKIP").length;
+
+  if (report.errors.length > 0 || options.dryRun) {
+    return finish(report);
+  }
+
+  finish(report);
+
+  const contactsByRow = new Map(
+    contacts.map((contact) => [contact.row, contact])
+  );
+
+  await prisma.$transaction(
+    async (tx) => {
+      await tx.customer.createMany({
+        data: byAction("CREATE").map(({ row }) => {
+          const contact = contactsByRow.get(row)!;
+
+          return {
+            name: contact.name,
+            email: contact.email,
+            phone: contact.phone || null,
+            address: contact.address || null,
+            notes: contact.notes || null,
+            userId,
+          };
+        }),
+      });
+
+      for (const { row, customerId } of byAction("UPDATE")) {
+        const contact = contactsByRow.get(row)!;
+
+        await tx.customer.update({
+          where: { id: customerId, userId },
+          data: {
+            name: contact.name || undefined,
+            phone: contact.phone || undefined,
+            address: contact.address || undefined,
+            notes: contact.notes || undefined,
+          },
+        });
+      }
+    },
+    { timeout: IMPORT_TRANSACTION_TIMEOUT }
+  );
+
+  return report;
+}
+
+// Completes the report, nothing may be saved from a file with errors
+function finish(report: CustomerImportReport): CustomerImportReport {
+  report.valid = report.errors.length === 0;
+  report.errors.sort((a, b) => a.row - b.row);
+
+  if (!report.valid && !report.dryRun) {
+    throw new AppError(
+      400,
+      "Impor dibatalkan, perbaiki kesalahan pada file terlebih dahulu",
+      report
+    );
+  }
+
+  return report;
+}
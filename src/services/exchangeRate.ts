@@ -0,0 +1,43 @@
+import { AppError } from "../middleware/errorHandler";
+import { BASE_CURRENCY } from "../utils/currency";
+import { formatDate } from "../utils/email";
+import { money, Money } from "../utils/money";
+import { prisma } from "../utils/prisma";
+
+/**
+ * Finds the exchange rate to store on a document issued on the given date
+ * @param userId The business owning the manually entered rates
+ * @param currency The document's currency
+ * @param date The issue date, the latest rate on or before it is used
+ * @returns IDR per unit of currency
+ */
+export async function resolveExchangeRate(
+  userId: string,
+  currency: string,
+  date: Date
+): Promise<Money> {
+  if (currency === BASE_CURRENCY) {
+    return money(1);
+  }
+
+  const exchangeRate = await prisma.exchangeRate.findFirst({
+    where: {
+      settings: { userId },
+      currency,
+      date: { lte: date },
+    },
+    orderBy: { date: "desc" },
+    select: { rate: true },
+  });
+
+  if (!exchangeRate) {
+    throw new AppError(
+      400,
+      `Kurs ${currency} ke ${BASE_CURRENCY} untuk tanggal ${formatDate(
+        date
+      )} belum diatur`
+    );
+  }
+
+  return exchangeRate.rate;
+}
@@ -0,0 +1,199 @@
+import { DiscountType, PdfTemplate, Prisma } from "@prisma/client";
+import { addDays, differenceInCalendarDays } from "date-fns";
+import { AppError } from "../middleware/errorHandler";
+import { BASE_CURRENCY } from "../utils/currency";
+import { MoneyInput } from "../utils/money";
+import { prisma } from "../utils/prisma";
+import { resolveExchangeRate } from "./exchangeRate";
+import { byUser, recordInvoiceActivity } from "./invoiceActivity";
+import { withBalance } from "./invoicePayment";
+import { allocateInvoiceNumber } from "./invoiceNumber";
+import { calculateInvoiceTotals, LineItemInput } from "./invoiceTotals";
+
+type PrismaTx = Prisma.TransactionClient;
+
+export interface CreateInvoiceInput {
+  customerId: string;
+  date: Date;
+  dueDate: Date;
+  // Defaults to the currency in settings
+  currency?: string;
+  // IDR per unit of currency, looked up from the entered rates when omitted
+  exchangeRate?: MoneyInput;
+  items: LineItemInput[];
+  notes?: string | null;
+  taxRate: MoneyInput;
+  discountType?: DiscountType | null;
+  discountValue?: MoneyInput;
+  // Printed with the default template from settings when not set
+  pdfTemplate?: PdfTemplate | null;
+  // Save without consuming an invoice number, see finalization
+  draft?: boolean;
+  // The quotation the invoice is converted from
+  quotationId?: string;
+}
+
+export interface DuplicateInvoiceOptions extends Partial<CreateInvoiceInput> {
+  // Keep the original number of days between invoice date and due date
+  keepPaymentTerm?: boolean;
+}
+
+/**
+ * Creates an invoice with its items and totals. The number is reserved in
+ * the same transaction, drafts get theirs when they are finalized.
+ * @param details Kept on the CREATED activity, e.g. where the invoice came from
+ * @param db Pass a transaction client to create it as part of a larger change
+ */
+export async function createInvoice(
+  userId: string,
+  data: CreateInvoiceInput,
+  details?: Prisma.InputJsonObject,
+  db?: PrismaTx
+) {
+  const settings = await (db || prisma).settings.findUnique({
+    where: { userId },
+    select: { currency: true, taxRounding: true },
+  });
+  const currency = data.currency || settings?.currency || BASE_CURRENCY;
+  const exchangeRate =
+    currency === BASE_CURRENCY
+      ? 1
+      : data.exchangeRate ??
+        (await resolveExchangeRate(userId, currency, data.date));
+
+  // Calculate totals
+  const discountType = data.discountType ?? null;
+  const discountValue = data.discountValue ?? 0;
+  const { items, subtotal, discount, tax, total } = calculateInvoiceTotals(
+    data.items,
+    data.taxRate,
+    { type: discountType, value: discountValue },
+    { currency, taxRounding: settings?.taxRounding }
+  );
+
+  const create = async (tx: PrismaTx) => {
+    const number = data.draft
+      ? null
+      : await allocateInvoiceNumber(tx, userId, data.date);
+
+    const invoice = await tx.invoice.create({
+      data: {
+        number,
+        status: data.draft ? "DRAFT" : "UNPAID",
+        finalizedAt: data.draft ? null : new Date(),
+        date: data.date,
+        dueDate: data.dueDate,
+        subtotal,
+        discountType,
+        discountValue,
+        discount,
+        taxRate: data.taxRate,
+        tax,
+        total,
+        currency,
+        exchangeRate,
+        notes: data.notes,
+        pdfTemplate: data.pdfTemplate,
+        userId,
+        customerId: data.customerId,
+        quotationId: data.quotationId,
+        items: {
+          create: items.map((item) => ({
+            description: item.description,
+            quantity: item.quantity,
+            price: item.price,
+            discountType: item.discountType ?? null,
+            discountValue: item.discountValue ?? 0,
+            discount: item.discount,
+            amount: item.amount,
+            taxRate: item.taxRate ?? null,
+            taxExempt: item.taxExempt ?? false,
+            tax: item.tax,
+          })),
+        },
+      },
+      include: {
+        items: true,
+        customer: true,
+        payments: true,
+      },
+    });
+
+    await recordInvoiceActivity(
+      invoice.id,
+      { type: "CREATED", author: byUser(userId), details },
+      tx
+    );
+
+    return invoice;
+  };
+  const invoice = db ? await create(db) : await prisma.$transaction(create);
+
+  return withBalance(invoice);
+}
+
+/**
+ * Creates a new invoice from an existing one in any status. Customer, items,
+ * notes, tax and discount are copied; the dates start today unless given
+ * and the invoice gets the next number. Payments are not copied.
+ */
+export async function duplicateInvoice(
+  userId: string,
+  invoiceId: string,
+  { keepPaymentTerm = true, ...overrides }: DuplicateInvoiceOptions = {}
+) {
+  const original = await prisma.invoice.findFirst({
+    where: { id: invoiceId, userId },
+    include: {
+      items: {
+        orderBy: { createdAt: "asc" },
+      },
+    },
+  });
+
+  if (!original) {
+    throw new AppError(404, "Faktur tidak ditemukan");
+  }
+
+  if (overrides.customerId && overrides.customerId !== original.customerId) {
+    const customer = await prisma.customer.findFirst({
+      where: { id: overrides.customerId, userId },
+      select: { id: true },
+    });
+
+    if (!customer) {
+      throw new AppError(404, "Pelanggan tidak ditemukan");
+    }
+  }
+
+  const date = overrides.date || new Date();
+  const paymentTermDays = keepPaymentTerm
+    ? differenceInCalendarDays(original.dueDate, original.date)
+    : 0;
+
+  return createInvoice(
+    userId,
+    {
+      customerId: overrides.customerId ?? original.customerId,
+      date,
+      dueDate: overrides.dueDate || addDays(date, paymentTermDays),
+      currency: overrides.currency ?? original.currency,
+      // Looked up again for the new date when not given
+      exchangeRate: overrides.exchangeRate,
+      items: overrides.items ?? original.items,
+      notes: overrides.notes !== undefined ? overrides.notes : original.notes,
+      taxRate: overrides.taxRate ?? original.taxRate,
+      discountType:
+        overrides.discountType !== undefined
+          ? overrides.discountType
+          : original.discountType,
+      discountValue: overrides.discountValue ?? original.discountValue,
+      pdfTemplate:
+        overrides.pdfTemplate !== undefined
+          ? overrides.pdfTemplate
+          : original.pdfTemplate,
+      draft: overrides.draft,
+    },
+    { duplicatedFrom: original.id }
+  );
+}
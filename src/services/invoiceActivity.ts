@@ -0,0 +1,200 @@
+import {
+  ActivityActor,
+  Invoice,
+  InvoiceActivityType,
+  InvoiceItem,
+  InvoicePayment,
+  InvoiceStatus,
+  Prisma,
+} from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import { prisma } from "../utils/prisma";
+
+type PrismaTx = Prisma.TransactionClient;
+
+// Who caused an activity: a business user, the customer or the system
+export interface ActivityAuthor {
+  actor: ActivityActor;
+  userId?: string | null;
+}
+
+export const SYSTEM: ActivityAuthor = { actor: "SYSTEM" };
+export const CUSTOMER: ActivityAuthor = { actor: "CUSTOMER" };
+
+export function byUser(userId: string): ActivityAuthor {
+  return { actor: "USER", userId };
+}
+
+type JsonValue = Prisma.InputJsonValue | null;
+
+// Edited fields with their value before and after
+export type InvoiceChanges = Record<string, { from: JsonValue; to: JsonValue }>;
+
+export interface InvoiceActivityInput {
+  type: InvoiceActivityType;
+  author: ActivityAuthor;
+  changes?: InvoiceChanges;
+  details?: Prisma.InputJsonObject;
+}
+
+function toActivityData(invoiceId: string, activity: InvoiceActivityInput) {
+  return {
+    invoiceId,
+    type: activity.type,
+    actor: activity.author.actor,
+    userId: activity.author.userId ?? null,
+    changes: activity.changes,
+    details: activity.details,
+  };
+}
+
+/**
+ * Appends an event to the history of an invoice
+ * @param db Pass the transaction client to record it with the change itself
+ */
+export function recordInvoiceActivity(
+  invoiceId: string,
+  activity: InvoiceActivityInput,
+  db: PrismaTx = prisma
+) {
+  return db.invoiceActivity.create({
+    data: toActivityData(invoiceId, activity),
+  });
+}
+
+/**
+ * Appends the same event to the history of several invoices
+ */
+export function recordInvoiceActivities(
+  invoiceIds: string[],
+  activity: InvoiceActivityInput,
+  db: PrismaTx = prisma
+) {
+  return db.invoiceActivity.createMany({
+    data: invoiceIds.map((invoiceId) => toActivityData(invoiceId, activity)),
+  });
+}
+
+/**
+ * The event for a status change, paid and cancelled invoices have their own
+ */
+export function statusActivityType(status: InvoiceStatus): InvoiceActivityType {
+  return status === "PAID" || status === "CANCELLED"
+    ? status
+    : "STATUS_CHANGED";
+}
+
+// What is kept about a payment on PAYMENT_RECORDED and PAYMENT_DELETED
+export function paymentDetails(
+  payment: Pick<InvoicePayment, "id" | "amount" | "method">
+): Prisma.InputJsonObject {
+  return {
+    paymentId: payment.id,
+    amount: payment.amount.toString(),
+    method: payment.method,
+  };
+}
+
+// Decimals and dates are stored as strings so they survive as JSON
+function toJsonValue(value: unknown): JsonValue {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (Prisma.Decimal.isDecimal(value)) {
+    return (value as Prisma.Decimal).toString();
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  return value as Prisma.InputJsonValue;
+}
+
+// Invoice fields whose edits are kept with their before and after values
+export const TRACKED_INVOICE_FIELDS: (keyof Invoice & string)[] = [
+  "status",
+  "customerId",
+  "date",
+  "dueDate",
+  "currency",
+  "exchangeRate",
+  "subtotal",
+  "discountType",
+  "discountValue",
+  "discount",
+  "taxRate",
+  "tax",
+  "total",
+  "notes",
+  "paymentProof",
+  "paidAt",
+  "pdfTemplate",
+];
+
+/**
+ * The lines of an invoice as kept in an edit, in the order they were added
+ */
+export function describeItems(items: InvoiceItem[]): Prisma.InputJsonArray {
+  return [...items]
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .map((item) => ({
+      description: item.description,
+      quantity: item.quantity,
+      price: item.price.toString(),
+      discountType: item.discountType,
+      discountValue: item.discountValue.toString(),
+      taxRate: item.taxRate?.toString() ?? null,
+      taxExempt: item.taxExempt,
+      amount: item.amount.toString(),
+    }));
+}
+
+/**
+ * Compares two versions of a record field by field
+ * @param fields The fields to compare
+ * @returns The fields that differ, with both values
+ */
+export function diffFields<T extends object>(
+  before: T,
+  after: T,
+  fields: (keyof T & string)[]
+): InvoiceChanges {
+  const changes: InvoiceChanges = {};
+
+  for (const field of fields) {
+    const from = toJsonValue(before[field]);
+    const to = toJsonValue(after[field]);
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * The history of an invoice, oldest first
+ * @throws AppError 404 if the invoice does not belong to the user
+ */
+export async function getInvoiceActivity(userId: string, invoiceId: string) {
+  const invoice = await prisma.invoice.findFirst({
+    where: { id: invoiceId, userId },
+    select: { id: true },
+  });
+
+  if (!invoice) {
+    throw new AppError(404, "Faktur tidak ditemukan");
+  }
+
+  return prisma.invoiceActivity.findMany({
+    where: { invoiceId },
+    include: {
+      user: {
+        select: { id: true, email: true, businessName: true },
+      },
+    },
+    // The id keeps events of the same moment in a stable order
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+  });
+}
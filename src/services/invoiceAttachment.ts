@@ -0,0 +1,264 @@
+import { Prisma } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import { EmailAttachment } from "../utils/email";
+import { logger } from "../utils/logger";
+import { prisma } from "../utils/prisma";
+import { storage } from "../utils/storage";
+import { byUser, recordInvoiceActivity } from "./invoiceActivity";
+
+// Most attachments a single invoice may have
+export const MAX_INVOICE_ATTACHMENTS = 20;
+
+// Mail servers commonly reject messages over 25MB, leave room for the body
+// and the encoding overhead
+const EMAIL_ATTACHMENTS_LIMIT = 15 * 1024 * 1024;
+
+// How long the download links handed out with attachments work
+const DOWNLOAD_URL_EXPIRY_SECONDS = 60 * 60;
+
+async function findInvoice(userId: string, invoiceId: string) {
+  const invoice = await prisma.invoice.findFirst({
+    where: { id: invoiceId, userId },
+    select: {
+      id: true,
+      _count: {
+        select: { attachments: true },
+      },
+    },
+  });
+
+  if (!invoice) {
+    throw new AppError(404, "Faktur tidak ditemukan");
+  }
+
+  return invoice;
+}
+
+// Best effort, a file left behind in storage is only wasted space
+async function deleteFiles(files: { storageKey: string }[]) {
+  for (const file of files) {
+    try {
+      await storage.delete(file.storageKey);
+    } catch (error) {
+      logger.error(`Error deleting attachment ${file.storageKey}:`, error);
+    }
+  }
+}
+
+/**
+ * Deletes an invoice together with the stored files of its attachments. The
+ * attachment rows go with the invoice, so their keys are read first and the
+ * files removed once the invoice is gone.
+ * @param where Conditions the invoice must still meet, e.g. its status
+ * @returns Whether the invoice was deleted
+ */
+export async function deleteInvoiceWithAttachments(
+  invoiceId: string,
+  where: Prisma.InvoiceWhereInput = {}
+): Promise<boolean> {
+  const attachments = await prisma.invoiceAttachment.findMany({
+    where: { invoiceId },
+    select: { storageKey: true },
+  });
+
+  const { count } = await prisma.invoice.deleteMany({
+    where: { ...where, id: invoiceId },
+  });
+
+  if (count > 0) {
+    await deleteFiles(attachments);
+  }
+
+  return count > 0;
+}
+
+/**
+ * Checks that an invoice of the user can take more attachments, before any
+ * file is uploaded
+ * @throws AppError 404 if the invoice does not belong to the user
+ */
+export async function assertCanAttach(userId: string, invoiceId: string) {
+  const invoice = await findInvoice(userId, invoiceId);
+
+  if (invoice._count.attachments >= MAX_INVOICE_ATTACHMENTS) {
+    throw new AppError(
+      400,
+      `Maksimal ${MAX_INVOICE_ATTACHMENTS} lampiran per faktur`
+    );
+  }
+}
+
+/**
+ * The attachments of an invoice, oldest first, each with a download link
+ * that expires after an hour
+ */
+export async function listInvoiceAttachments(
+  userId: string,
+  invoiceId: string
+) {
+  await findInvoice(userId, invoiceId);
+
+  const attachments = await prisma.invoiceAttachment.findMany({
+    where: { invoiceId },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return attachments.map((attachment) => ({
+    ...attachment,
+    downloadUrl: storage.signedUrl(
+      attachment.storageKey,
+      DOWNLOAD_URL_EXPIRY_SECONDS
+    ),
+  }));
+}
+
+/**
+ * Saves files uploaded through invoiceAttachmentUpload as attachments of an
+ * invoice. The uploaded files are deleted again if they cannot be saved.
+ * @param includeInEmail Whether the files go with the invoice email by default
+ */
+export async function addInvoiceAttachments(
+  userId: string,
+  invoiceId: string,
+  files: Express.Multer.File[],
+  includeInEmail = false
+) {
+  const uploaded = files.map((file) => ({
+    url: file.path,
+    storageKey: file.filename,
+    filename: file.originalname,
+    mimeType: file.mimetype,
+    size: file.size,
+  }));
+
+  try {
+    const invoice = await findInvoice(userId, invoiceId);
+
+    if (invoice._count.attachments + files.length > MAX_INVOICE_ATTACHMENTS) {
+      throw new AppError(
+        400,
+        `Maksimal ${MAX_INVOICE_ATTACHMENTS} lampiran per faktur`
+      );
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      const attachments = [];
+
+      for (const file of uploaded) {
+        const attachment = await tx.invoiceAttachment.create({
+          data: { ...file, invoiceId, includeInEmail },
+        });
+
+        await recordInvoiceActivity(
+          invoiceId,
+          {
+            type: "ATTACHMENT_ADDED",
+            author: byUser(userId),
+            details: {
+              attachmentId: attachment.id,
+              filename: attachment.filename,
+            },
+          },
+          tx
+        );
+        attachments.push(attachment);
+      }
+
+      return attachments;
+    });
+  } catch (error) {
+    await deleteFiles(uploaded);
+    throw error;
+  }
+}
+
+/**
+ * Chooses whether an attachment goes with the invoice email by default
+ */
+export async function updateInvoiceAttachment(
+  userId: string,
+  invoiceId: string,
+  attachmentId: string,
+  data: { includeInEmail: boolean }
+) {
+  const { count } = await prisma.invoiceAttachment.updateMany({
+    where: { id: attachmentId, invoiceId, invoice: { userId } },
+    data,
+  });
+
+  if (count === 0) {
+    throw new AppError(404, "Lampiran tidak ditemukan");
+  }
+
+  return prisma.invoiceAttachment.findUniqueOrThrow({
+    where: { id: attachmentId },
+  });
+}
+
+/**
+ * Removes an attachment from an invoice and deletes the stored file
+ */
+export async function deleteInvoiceAttachment(
+  userId: string,
+  invoiceId: string,
+  attachmentId: string
+) {
+  const attachment = await prisma.invoiceAttachment.findFirst({
+    where: { id: attachmentId, invoiceId, invoice: { userId } },
+  });
+
+  if (!attachment) {
+    throw new AppError(404, "Lampiran tidak ditemukan");
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.invoiceAttachment.delete({ where: { id: attachment.id } });
+    await recordInvoiceActivity(
+      invoiceId,
+      {
+        type: "ATTACHMENT_DELETED",
+        author: byUser(userId),
+        details: { attachmentId: attachment.id, filename: attachment.filename },
+      },
+      tx
+    );
+  });
+
+  await deleteFiles([attachment]);
+}
+
+/**
+ * The attachments to send with an invoice email
+ * @param attachmentIds Attachments chosen for this email, the ones marked
+ * includeInEmail when omitted
+ * @throws AppError 400 if a chosen attachment is not on the invoice or the
+ * files are too large for an email
+ */
+export async function getEmailAttachments(
+  invoiceId: string,
+  attachmentIds?: string[]
+): Promise<EmailAttachment[]> {
+  const attachments = await prisma.invoiceAttachment.findMany({
+    where: attachmentIds
+      ? { invoiceId, id: { in: attachmentIds } }
+      : { invoiceId, includeInEmail: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  if (attachmentIds && attachments.length !== new Set(attachmentIds).size) {
+    throw new AppError(400, "Lampiran tidak ditemukan pada faktur ini");
+  }
+
+  const size = attachments.reduce(
+    (sum, attachment) => sum + attachment.size,
+    0
+  );
+  if (size > EMAIL_ATTACHMENTS_LIMIT) {
+    throw new AppError(
+      400,
+      "Ukuran total lampiran melebihi batas email (15MB)"
+    );
+  }
+
+  return attachments.map(({ filename, url }) => ({ filename, url }));
+}
@@ -0,0 +1,361 @@
+import { InvoiceStatus, Prisma } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import { sendInvoiceEmail, sendReminderEmail } from "../utils/email";
+import { logger } from "../utils/logger";
+import { prisma } from "../utils/prisma";
+import { DEFAULT_TIMEZONE } from "../utils/timezone";
+import {
+  ActivityAuthor,
+  byUser,
+  paymentDetails,
+  recordInvoiceActivity,
+} from "./invoiceActivity";
+import {
+  deleteInvoiceWithAttachments,
+  getEmailAttachments,
+} from "./invoiceAttachment";
+import { getInvoicePaymentOptions } from "./invoiceOnlinePayment";
+import { calculateBalance } from "./invoicePayment";
+
+export type BulkInvoiceAction =
+  | "MARK_PAID"
+  | "CANCEL"
+  | "SEND"
+  | "REMIND"
+  | "DELETE";
+
+export interface BulkInvoiceResult {
+  id: string;
+  number: string | null;
+  success: boolean;
+  // Status after the action, absent for deleted invoices
+  status?: InvoiceStatus;
+  message?: string;
+}
+
+// Most invoices a single bulk request may touch
+export const BULK_INVOICE_LIMIT = 200;
+
+// Invoices that are issued and still waiting for payment
+const OPEN_STATUSES: InvoiceStatus[] = ["UNPAID", "PARTIALLY_PAID", "OVERDUE"];
+
+const bulkInvoiceInclude = Prisma.validator<Prisma.InvoiceInclude>()({
+  customer: true,
+  items: true,
+  payments: true,
+  user: {
+    select: {
+      businessName: true,
+      businessEmail: true,
+      businessPhone: true,
+      businessAddress: true,
+      businessLogo: true,
+      settings: {
+        select: { timezone: true },
+      },
+    },
+  },
+});
+
+type BulkInvoice = Prisma.InvoiceGetPayload<{
+  include: typeof bulkInvoiceInclude;
+}>;
+
+// Each handler applies the same rules as the single-invoice endpoint and
+// returns the resulting status, or null if the invoice is gone
+const actionHandlers: Record<
+  BulkInvoiceAction,
+  (
+    invoice: BulkInvoice,
+    author: ActivityAuthor
+  ) => Promise<InvoiceStatus | null>
+> = {
+  async MARK_PAID(invoice, author) {
+    if (invoice.status === "PAID") {
+      throw new AppError(400, "Faktur sudah lunas");
+    }
+    if (invoice.status === "DRAFT") {
+      throw new AppError(400, "Faktur draf harus difinalisasi terlebih dahulu");
+    }
+    if (invoice.status === "PENDING_VERIFICATION") {
+      throw new AppError(
+        400,
+        "Bukti pembayaran faktur masih menunggu verifikasi"
+      );
+    }
+    if (invoice.status === "CANCELLED") {
+      throw new AppError(
+        400,
+        "Faktur yang sudah dibatalkan tidak dapat diubah"
+      );
+    }
+
+    const paidAt = new Date();
+
+    await prisma.$transaction(async (tx) => {
+      const { count } = await tx.invoice.updateMany({
+        where: { id: invoice.id, status: { in: OPEN_STATUSES } },
+        data: { status: "PAID", paidAt },
+      });
+
+      if (count === 0) {
+        throw new AppError(400, "Status faktur telah berubah");
+      }
+
+      // Settle the remaining balance in the payment ledger
+      const payments = await tx.invoicePayment.findMany({
+        where: { invoiceId: invoice.id },
+        select: { amount: true },
+      });
+      const { balanceDue } = calculateBalance(invoice.total, payments);
+
+      if (balanceDue.gt(0)) {
+        const payment = await tx.invoicePayment.create({
+          data: { invoiceId: invoice.id, amount: balanceDue, date: paidAt },
+        });
+
+        await recordInvoiceActivity(
+          invoice.id,
+          {
+            type: "PAYMENT_RECORDED",
+            author,
+            details: paymentDetails(payment),
+          },
+          tx
+        );
+      }
+
+      await recordInvoiceActivity(
+        invoice.id,
+        {
+          type: "PAID",
+          author,
+          changes: { status: { from: invoice.status, to: "PAID" } },
+        },
+        tx
+      );
+    });
+
+    return "PAID";
+  },
+
+  async CANCEL(invoice, author) {
+    if (invoice.status === "DRAFT") {
+      throw new AppError(400, "Faktur draf harus difinalisasi terlebih dahulu");
+    }
+    if (invoice.status === "PENDING_VERIFICATION") {
+      throw new AppError(
+        400,
+        "Bukti pembayaran faktur masih menunggu verifikasi"
+      );
+    }
+    if (invoice.status === "CANCELLED") {
+      throw new AppError(400, "Faktur sudah dibatalkan");
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const { count } = await tx.invoice.updateMany({
+        where: { id: invoice.id, status: { in: [...OPEN_STATUSES, "PAID"] } },
+        data: { status: "CANCELLED" },
+      });
+
+      if (count === 0) {
+        throw new AppError(400, "Status faktur telah berubah");
+      }
+
+      await recordInvoiceActivity(
+        invoice.id,
+        {
+          type: "CANCELLED",
+          author,
+          changes: { status: { from: invoice.status, to: "CANCELLED" } },
+        },
+        tx
+      );
+    });
+
+    return "CANCELLED";
+  },
+
+  async SEND(invoice, author) {
+    if (invoice.status === "CANCELLED") {
+      throw new AppError(
+        400,
+        "Faktur yang sudah dibatalkan tidak dapat dikirim"
+      );
+    }
+    if (invoice.status === "DRAFT") {
+      throw new AppError(400, "Faktur draf harus difinalisasi terlebih dahulu");
+    }
+    if (!invoice.customer.email) {
+      throw new AppError(400, "Pelanggan tidak memiliki alamat email");
+    }
+
+    // Only the attachments marked to go with the invoice email
+    const attachments = await getEmailAttachments(invoice.id);
+    await sendInvoiceEmail(
+      invoice,
+      await getInvoicePaymentOptions(invoice),
+      attachments
+    );
+    await prisma.invoiceReminder.create({
+      data: {
+        invoiceId: invoice.id,
+        type: "MANUAL",
+        channel: "EMAIL",
+        status: "SENT",
+        notes: "Faktur dikirim via email",
+      },
+    });
+    await recordInvoiceActivity(invoice.id, {
+      type: "SENT",
+      author,
+      details: {
+        to: invoice.customer.email,
+        attachments: attachments.map((attachment) => attachment.filename),
+      },
+    });
+
+    return invoice.status;
+  },
+
+  async REMIND(invoice, author) {
+    if (!OPEN_STATUSES.includes(invoice.status)) {
+      throw new AppError(
+        400,
+        "Pengingat hanya dapat dikirim untuk faktur yang belum lunas"
+      );
+    }
+    if (!invoice.customer.email) {
+      throw new AppError(400, "Pelanggan tidak memiliki alamat email");
+    }
+
+    await sendReminderEmail(
+      invoice,
+      await getInvoicePaymentOptions(invoice),
+      invoice.user.settings?.timezone || DEFAULT_TIMEZONE
+    );
+    await prisma.invoiceReminder.create({
+      data: {
+        invoiceId: invoice.id,
+        type: "MANUAL",
+        channel: "EMAIL",
+        status: "SENT",
+        notes: "Pengingat dikirim via email",
+      },
+    });
+    await recordInvoiceActivity(invoice.id, {
+      type: "REMINDED",
+      author,
+      details: { to: invoice.customer.email },
+    });
+
+    return invoice.status;
+  },
+
+  async DELETE(invoice) {
+    // Numbered invoices stay so the sequence has no gaps
+    if (invoice.status !== "DRAFT") {
+      throw new AppError(
+        400,
+        "Hanya faktur draf yang dapat dihapus, batalkan faktur atau buat nota kredit"
+      );
+    }
+
+    const deleted = await deleteInvoiceWithAttachments(invoice.id, {
+      status: "DRAFT",
+    });
+
+    if (!deleted) {
+      throw new AppError(400, "Status faktur telah berubah");
+    }
+
+    return null;
+  },
+};
+
+/**
+ * Applies one action to many invoices. Each invoice is processed on its
+ * own, so one failure does not stop the rest; the outcome of every invoice
+ * is reported back.
+ * @param userId The business owning the invoices
+ * @param action The action to apply
+ * @param selection Explicit invoice ids, or a filter over the user's invoices
+ */
+export async function runBulkInvoiceAction(
+  userId: string,
+  action: BulkInvoiceAction,
+  selection: { ids: string[] } | { where: Prisma.InvoiceWhereInput }
+) {
+  const where: Prisma.InvoiceWhereInput =
+    "ids" in selection
+      ? { userId, id: { in: selection.ids } }
+      : { ...selection.where, userId };
+
+  const count = await prisma.invoice.count({ where });
+  if (count > BULK_INVOICE_LIMIT) {
+    throw new AppError(
+      400,
+      `Maksimal ${BULK_INVOICE_LIMIT} faktur per operasi, filter cocok dengan ${count} faktur`
+    );
+  }
+
+  const invoices = await prisma.invoice.findMany({
+    where,
+    include: bulkInvoiceInclude,
+    orderBy: { date: "asc" },
+  });
+
+  const author = byUser(userId);
+  const results: BulkInvoiceResult[] = [];
+
+  for (const invoice of invoices) {
+    try {
+      const status = await actionHandlers[action](invoice, author);
+      results.push({
+        id: invoice.id,
+        number: invoice.number,
+        success: true,
+        status: status ?? undefined,
+      });
+    } catch (error) {
+      if (!(error instanceof AppError)) {
+        logger.error(`Bulk ${action} failed for invoice ${invoice.id}:`, error);
+      }
+
+      results.push({
+        id: invoice.id,
+        number: invoice.number,
+        success: false,
+        message:
+          error instanceof AppError ? error.message : "Gagal memproses faktur",
+      });
+    }
+  }
+
+  // Ids that do not exist or belong to someone else
+  if ("ids" in selection) {
+    const found = new Set(invoices.map((invoice) => invoice.id));
+
+    for (const id of new Set(selection.ids)) {
+      if (!found.has(id)) {
+        results.push({
+          id,
+          number: null,
+          success: false,
+          message: "Faktur tidak ditemukan",
+        });
+      }
+    }
+  }
+
+  const succeeded = results.filter((result) => result.success).length;
+
+  return {
+    action,
+    total: results.length,
+    succeeded,
+    failed: results.length - succeeded,
+    results,
+  };
+}
@@ -0,0 +1,179 @@
+import { Prisma } from "@prisma/client";
+import ExcelJS from "exceljs";
+import { Writable } from "stream";
+import {
+  assertWritable,
+  Cell,
+  createCsvWriter,
+  escapeFormula,
+  RowWriter,
+} from "../utils/csv";
+import { prisma } from "../utils/prisma";
+import { toDateKey } from "../utils/timezone";
+import { withBalances } from "./invoicePayment";
+
+export type InvoiceExportFormat = "csv" | "xlsx";
+
+export interface InvoiceExportOptions {
+  format: InvoiceExportFormat;
+  // One row per invoice item instead of one row per invoice
+  includeItems: boolean;
+  where: Prisma.InvoiceWhereInput;
+  orderBy: Prisma.InvoiceOrderByWithRelationInput;
+  timeZone: string;
+}
+
+// Invoices are read in pages of this size so memory use stays flat
+const EXPORT_BATCH_SIZE = 500;
+
+export const EXPORT_CONTENT_TYPES: Record<InvoiceExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+const INVOICE_HEADERS = [
+  "Nomor",
+  "Status",
+  "Tanggal",
+  "Jatuh Tempo",
+  "Mata Uang",
+  "Kurs",
+  "Subtotal",
+  "Diskon",
+  "Tarif Pajak",
+  "Pajak",
+  "Total",
+  "Dibayar",
+  "Sisa Tagihan",
+  "Catatan",
+  "Pelanggan",
+  "Email Pelanggan",
+  "Telepon Pelanggan",
+  "Alamat Pelanggan",
+];
+
+const ITEM_HEADERS = [
+  "Deskripsi Item",
+  "Kuantitas",
+  "Harga",
+  "Diskon Item",
+  "Tarif Pajak Item",
+  "Bebas Pajak",
+  "Jumlah Item",
+];
+
+function createXlsxWriter(stream: Writable): RowWriter {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream });
+  const worksheet = workbook.addWorksheet("Faktur");
+
+  return {
+    async write(row) {
+      assertWritable(stream);
+      worksheet.addRow(row.map(escapeFormula)).commit();
+    },
+    async end() {
+      worksheet.commit();
+      await workbook.commit();
+    },
+  };
+}
+
+async function* invoiceBatches(options: InvoiceExportOptions) {
+  for (let skip = 0; ; skip += EXPORT_BATCH_SIZE) {
+    const invoices = await prisma.invoice.findMany({
+      where: options.where,
+      include: {
+        customer: true,
+        items: options.includeItems && {
+          orderBy: { createdAt: "asc" },
+        },
+      },
+      // The id keeps the order stable between pages
+      orderBy: [options.orderBy, { id: "asc" }],
+      skip,
+      take: EXPORT_BATCH_SIZE,
+    });
+
+    if (invoices.length > 0) {
+      yield withBalances(invoices);
+    }
+
+    if (invoices.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+  }
+}
+
+/**
+ * Streams the invoices matching a filter as a CSV or XLSX spreadsheet.
+ * Money is written as plain numbers in the invoice's currency.
+ * @param stream Destination, e.g. the HTTP response
+ */
+export async function exportInvoices(
+  stream: Writable,
+  options: InvoiceExportOptions
+): Promise<void> {
+  const writer =
+    options.format === "xlsx"
+      ? createXlsxWriter(stream)
+      : createCsvWriter(stream);
+  // CSV keeps the exact decimal, XLSX needs numeric cells
+  const amount = (value: Prisma.Decimal | null): Cell =>
+    value === null
+      ? null
+      : options.format === "xlsx"
+      ? value.toNumber()
+      : value.toString();
+
+  await writer.write(
+    options.includeItems
+      ? [...INVOICE_HEADERS, ...ITEM_HEADERS]
+      : INVOICE_HEADERS
+  );
+
+  for await (const invoices of invoiceBatches(options)) {
+    for (const invoice of invoices) {
+      const invoiceRow: Cell[] = [
+        invoice.number,
+        invoice.status,
+        toDateKey(invoice.date, options.timeZone),
+        toDateKey(invoice.dueDate, options.timeZone),
+        invoice.currency,
+        amount(invoice.exchangeRate),
+        amount(invoice.subtotal),
+        amount(invoice.discount),
+        amount(invoice.taxRate),
+        amount(invoice.tax),
+        amount(invoice.total),
+        amount(invoice.amountPaid),
+        amount(invoice.balanceDue),
+        invoice.notes,
+        invoice.customer.name,
+        invoice.customer.email,
+        invoice.customer.phone,
+        invoice.customer.address,
+      ];
+
+      // Invoices without items still get a row
+      if (!options.includeItems || invoice.items.length === 0) {
+        await writer.write(invoiceRow);
+        continue;
+      }
+
+      for (const item of invoice.items) {
+        await writer.write([
+          ...invoiceRow,
+          item.description,
+          item.quantity,
+          amount(item.price),
+          amount(item.discount),
+          amount(item.taxRate),
+          item.taxExempt ? "Ya" : "Tidak",
+          amount(item.amount),
+        ]);
+      }
+    }
+  }
+
+  await writer.end();
+}
@@ -0,0 +1,758 @@
+import { InvoiceStatus } from "@prisma/client";
+import { randomUUID } from "crypto";
+import { AppError } from "../middleware/errorHandler";
+import { BASE_CURRENCY, isValidCurrency } from "../utils/currency";
+import { mapCsvColumns, parseCsv } from "../utils/csv";
+import { money, Money } from "../utils/money";
+import { prisma } from "../utils/prisma";
+import { DEFAULT_TIMEZONE, toDateKey } from "../utils/timezone";
+import { resolveExchangeRate } from "./exchangeRate";
+import { byUser, recordInvoiceActivity } from "./invoiceActivity";
+import { advanceInvoiceSequence } from "./invoiceNumber";
+import {
+  calculateInvoiceTotals,
+  InvoiceTotals,
+  LineItemInput,
+} from "./invoiceTotals";
+
+// Header names recognised for each field, compared case-insensitively. The
+// Indonesian names match the columns written by the invoice export.
+const IMPORT_COLUMNS = {
+  number: ["nomor", "nomor faktur", "number", "invoice number"],
+  status: ["status"],
+  date: ["tanggal", "tanggal faktur", "date", "invoice date"],
+  dueDate: ["jatuh tempo", "due date"],
+  currency: ["mata uang", "currency"],
+  exchangeRate: ["kurs", "exchange rate"],
+  taxRate: ["tarif pajak", "tax rate"],
+  discount: ["diskon", "discount"],
+  total: ["total"],
+  amountPaid: ["dibayar", "amount paid"],
+  paidAt: ["tanggal lunas", "paid at"],
+  notes: ["catatan", "notes"],
+  customerName: ["pelanggan", "nama pelanggan", "customer", "customer name"],
+  customerEmail: ["email pelanggan", "customer email", "email"],
+  customerPhone: ["telepon pelanggan", "customer phone", "phone"],
+  customerAddress: ["alamat pelanggan", "customer address", "address"],
+  description: ["deskripsi item", "deskripsi", "description", "item"],
+  quantity: ["kuantitas", "quantity", "qty"],
+  price: ["harga", "price", "unit price"],
+  itemDiscount: ["diskon item", "item discount"],
+  itemTaxRate: ["tarif pajak item", "item tax rate"],
+  taxExempt: ["bebas pajak", "tax exempt"],
+};
+
+export type InvoiceImportField = keyof typeof IMPORT_COLUMNS;
+
+export const INVOICE_IMPORT_FIELDS = Object.keys(IMPORT_COLUMNS) as [
+  InvoiceImportField,
+  ...InvoiceImportField[]
+];
+
+export interface InvoiceImportOptions {
+  // Only validate and report, nothing is saved
+  dryRun: boolean;
+  // Move the invoice number sequences past the imported numbers
+  advanceNumbering?: boolean;
+  // Header in the file for a field, overrides the recognised names
+  mapping?: Partial<Record<InvoiceImportField, string>>;
+}
+
+export interface InvoiceImportIssue {
+  // Line in the file, the header is row 1
+  row: number;
+  column?: string;
+  message: string;
+}
+
+export interface ImportedInvoiceSummary {
+  row: number;
+  number: string;
+  customer: string;
+  customerAction: "MATCHED" | "CREATED";
+  status: InvoiceStatus;
+  date: string;
+  currency: string;
+  items: number;
+  total: Money;
+  amountPaid: Money;
+}
+
+export interface InvoiceImportReport {
+  dryRun: boolean;
+  valid: boolean;
+  rows: number;
+  // Header used for each recognised field
+  columns: Partial<Record<InvoiceImportField, string>>;
+  ignoredColumns: string[];
+  invoices: ImportedInvoiceSummary[];
+  customers: { matched: number; created: number };
+  errors: InvoiceImportIssue[];
+  warnings: InvoiceImportIssue[];
+  // Set when the numbering was advanced
+  nextInvoiceNumber?: number;
+}
+
+// Most data rows a single file may contain
+export const INVOICE_IMPORT_ROW_LIMIT = 10000;
+
+// Large files are saved in one transaction, allow it to run long
+const IMPORT_TRANSACTION_TIMEOUT = 5 * 60 * 1000;
+
+const REQUIRED_FIELDS: InvoiceImportField[] = ["number", "date"];
+
+// Status names accepted besides the enum values, as shown in emails
+const STATUS_LABELS: Record<string, InvoiceStatus> = {
+  "belum dibayar": "UNPAID",
+  "dibayar sebagian": "PARTIALLY_PAID",
+  lunas: "PAID",
+  "jatuh tempo": "OVERDUE",
+  dibatalkan: "CANCELLED",
+};
+
+const IMPORTABLE_STATUSES: InvoiceStatus[] = [
+  "UNPAID",
+  "PARTIALLY_PAID",
+  "PAID",
+  "OVERDUE",
+  "CANCELLED",
+];
+
+interface CustomerRef {
+  id: string;
+  name: string;
+  created: boolean;
+}
+
+interface NewCustomer {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+}
+
+interface PreparedInvoice {
+  row: number;
+  number: string;
+  customer: CustomerRef;
+  status: InvoiceStatus;
+  date: Date;
+  dueDate: Date;
+  paidAt: Date | null;
+  currency: string;
+  exchangeRate: Money;
+  taxRate: Money;
+  discountValue: Money;
+  notes: string | null;
+  totals: InvoiceTotals<LineItemInput>;
+  amountPaid: Money;
+}
+
+// Accepts YYYY-MM-DD as written by the export, or DD/MM/YYYY
+function parseDate(value: string): Date | null {
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value);
+  const local = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(value);
+
+  if (!iso && !local) {
+    return null;
+  }
+
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]]
+    : [local![3], local![2], local![1]];
+  const date = new Date(
+    `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`
+  );
+
+  // Rejects days that do not exist, such as 31/02/2024
+  return !isNaN(date.getTime()) && date.getUTCDate() === Number(day)
+    ? date
+    : null;
+}
+
+// Plain numbers, with a comma accepted as the decimal separator
+function parseAmount(value: string): Money | null {
+  const normalized = value.replace(/\s/g, "");
+  const text = /^-?\d+,\d+$/.test(normalized)
+    ? normalized.replace(",", ".")
+    : normalized;
+
+  return /^-?\d+(\.\d+)?$/.test(text) ? money(text) : null;
+}
+
+function parseBoolean(value: string): boolean | null {
+  const text = value.toLowerCase();
+
+  if (["ya", "yes", "true", "1"].includes(text)) {
+    return true;
+  }
+  if (["tidak", "no", "false", "0"].includes(text)) {
+    return false;
+  }
+
+  return null;
+}
+
+function parseStatus(value: string): InvoiceStatus | null {
+  const upper = value.toUpperCase().replace(/\s+/g, "_");
+
+  if (upper in InvoiceStatus) {
+    return upper as InvoiceStatus;
+  }
+
+  return STATUS_LABELS[value.toLowerCase()] ?? null;
+}
+
+/**
+ * Imports invoices with their items from a CSV file. Rows sharing an
+ * invoice number form one invoice; the invoice fields are read from its
+ * first row. Customers are matched by email, then by name, and created
+ * when not found. Numbers and statuses are kept as in the file. An invoice
+ * without items gets one line for its total; a total that differs from the
+ * calculated one is an error.
+ *
+ * The whole file is validated first. A dry run only returns the report;
+ * otherwise everything is saved in one transaction, or nothing if any row
+ * has an error.
+ */
+export async function importInvoices(
+  userId: string,
+  csv: string,
+  options: InvoiceImportOptions
+): Promise<InvoiceImportReport> {
+  const [header, ...rows] = await parseCsv(csv).catch(() => {
+    throw new AppError(400, "File CSV tidak dapat dibaca");
+  });
+
+  if (!header || rows.length === 0) {
+    throw new AppError(400, "File CSV tidak berisi data");
+  }
+  if (rows.length > INVOICE_IMPORT_ROW_LIMIT) {
+    throw new AppError(
+      400,
+      `Maksimal ${INVOICE_IMPORT_ROW_LIMIT} baris per impor, file berisi ${rows.length} baris`
+    );
+  }
+
+  const report: InvoiceImportReport = {
+    dryRun: options.dryRun,
+    valid: false,
+    rows: rows.length,
+    columns: {},
+    ignoredColumns: [],
+    invoices: [],
+    customers: { matched: 0, created: 0 },
+    errors: [],
+    warnings: [],
+  };
+  const error = (row: number, message: string, field?: InvoiceImportField) =>
+    report.errors.push({
+      row,
+      column: field && report.columns[field],
+      message,
+    });
+  const warn = (row: number, message: string, field?: InvoiceImportField) =>
+    report.warnings.push({
+      row,
+      column: field && report.columns[field],
+      message,
+    });
+
+  const { columns, ignored, missing, cell } = mapCsvColumns(
+    header,
+    IMPORT_COLUMNS,
+    options.mapping
+  );
+  report.columns = columns;
+  report.ignoredColumns = ignored;
+
+  for (const column of missing) {
+    report.errors.push({
+      row: 1,
+      column,
+      message: `Kolom "${column}" tidak ditemukan`,
+    });
+  }
+
+  for (const field of REQUIRED_FIELDS) {
+    if (!columns[field]) {
+      report.errors.push({
+        row: 1,
+        message: `Kolom untuk ${field} wajib ada`,
+      });
+    }
+  }
+  if (!columns.customerName && !columns.customerEmail) {
+    report.errors.push({
+      row: 1,
+      message: "Kolom nama atau email pelanggan wajib ada",
+    });
+  }
+
+  if (report.errors.length > 0) {
+    return finish(report);
+  }
+
+  // Rows of the same invoice, in file order
+  const groups = new Map<string, { row: number; values: string[] }[]>();
+  rows.forEach((values, index) => {
+    const row = index + 2;
+    const number = cell(values, "number");
+
+    if (!number) {
+      error(row, "Nomor faktur wajib diisi", "number");
+      return;
+    }
+
+    groups.set(number, [...(groups.get(number) ?? []), { row, values }]);
+  });
+
+  const [settings, existingInvoices, existingCustomers] = await Promise.all([
+    prisma.settings.findUnique({
+      where: { userId },
+      select: {
+        currency: true,
+        taxRate: true,
+        taxRounding: true,
+        timezone: true,
+      },
+    }),
+    prisma.invoice.findMany({
+      where: { userId, number: { in: Array.from(groups.keys()) } },
+      select: { number: true },
+    }),
+    prisma.customer.findMany({
+      where: { userId },
+      select: { id: true, name: true, email: true },
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+  const timeZone = settings?.timezone || DEFAULT_TIMEZONE;
+  const takenNumbers = new Set(existingInvoices.map(({ number }) => number));
+
+  // The oldest customer wins when several share an email or name
+  const customersByEmail = new Map<string, CustomerRef>();
+  const customersByName = new Map<string, CustomerRef>();
+  for (const customer of existingCustomers) {
+    const ref = { id: customer.id, name: customer.name, created: false };
+
+    if (customer.email && !customersByEmail.has(customer.email.toLowerCase())) {
+      customersByEmail.set(customer.email.toLowerCase(), ref);
+    }
+    if (!customersByName.has(customer.name.toLowerCase())) {
+      customersByName.set(customer.name.toLowerCase(), ref);
+    }
+  }
+  const newCustomers: NewCustomer[] = [];
+
+  const findOrAddCustomer = (values: string[], row: number) => {
+    const name = cell(values, "customerName");
+    const email = cell(values, "customerEmail");
+    const found =
+      (email && customersByEmail.get(email.toLowerCase())) ||
+      (name && customersByName.get(name.toLowerCase()));
+
+    if (found) {
+      return found;
+    }
+    if (!name) {
+      error(
+        row,
+        "Nama pelanggan wajib diisi untuk pelanggan baru",
+        "customerName"
+      );
+      return null;
+    }
+
+    const customer: NewCustomer = {
+      id: randomUUID(),
+      name,
+      email: email || null,
+      phone: cell(values, "customerPhone") || null,
+      address: cell(values, "customerAddress") || null,
+    };
+    const ref = { id: customer.id, name, created: true };
+
+    // Later rows with the same customer use the one created here
+    newCustomers.push(customer);
+    if (email) {
+      customersByEmail.set(email.toLowerCase(), ref);
+    }
+    customersByName.set(name.toLowerCase(), ref);
+
+    return ref;
+  };
+
+  const prepared: PreparedInvoice[] = [];
+
+  for (const [number, group] of groups) {
+    const [{ row, values }] = group;
+    const errorCount = report.errors.length;
+
+    if (takenNumbers.has(number)) {
+      error(row, `Nomor faktur ${number} sudah ada`, "number");
+    }
+
+    // Invoice fields come from the first row, later rows may only repeat them
+    for (const other of group.slice(1)) {
+      for (const field of ["date", "customerName", "customerEmail"] as const) {
+        const value = cell(other.values, field);
+
+        if (value && value !== cell(values, field)) {
+          warn(
+            other.row,
+            `Berbeda dengan baris ${row}, nilai baris ${row} yang dipakai`,
+            field
+          );
+        }
+      }
+    }
+
+    const date = parseDate(cell(values, "date"));
+    if (!date) {
+      error(
+        row,
+        "Tanggal tidak valid, gunakan YYYY-MM-DD atau DD/MM/YYYY",
+        "date"
+      );
+    }
+
+    const dueDateText = cell(values, "dueDate");
+    const dueDate = dueDateText ? parseDate(dueDateText) : date;
+    if (!dueDate) {
+      error(row, "Tanggal jatuh tempo tidak valid", "dueDate");
+    }
+
+    const currency = (
+      cell(values, "currency") ||
+      settings?.currency ||
+      BASE_CURRENCY
+    ).toUpperCase();
+    if (!isValidCurrency(currency)) {
+      error(row, "Kode mata uang tidak valid", "currency");
+    }
+
+    const amountField = (field: InvoiceImportField, max?: number) => {
+      const text = cell(values, field);
+      if (!text) {
+        return null;
+      }
+
+      const amount = parseAmount(text);
+      if (!amount || amount.lt(0) || (max !== undefined && amount.gt(max))) {
+        error(row, "Angka tidak valid", field);
+        return null;
+      }
+
+      return amount;
+    };
+
+    const exchangeRate = amountField("exchangeRate");
+    if (exchangeRate?.isZero()) {
+      error(row, "Kurs harus lebih dari 0", "exchangeRate");
+    }
+    const taxRate =
+      amountField("taxRate", 100) ?? money(settings?.taxRate ?? 0);
+    const discountValue = amountField("discount") ?? money(0);
+    const expectedTotal = amountField("total");
+    const paid = amountField("amountPaid");
+
+    let status: InvoiceStatus | null = null;
+    const statusText = cell(values, "status");
+    if (statusText) {
+      status = parseStatus(statusText);
+
+      if (!status || !IMPORTABLE_STATUSES.includes(status)) {
+        error(
+          row,
+          status === "DRAFT"
+            ? "Faktur draf tidak dapat diimpor"
+            : `Status "${statusText}" tidak dikenal`,
+          "status"
+        );
+      }
+    }
+
+    const paidAtText = cell(values, "paidAt");
+    const paidAt = paidAtText ? parseDate(paidAtText) : date;
+    if (!paidAt) {
+      error(row, "Tanggal lunas tidak valid", "paidAt");
+    }
+
+    // Line items, rows without a description belong to an invoice without items
+    const items: LineItemInput[] = [];
+    for (const line of group) {
+      const description = cell(line.values, "description");
+      if (!description) {
+        continue;
+      }
+
+      const lineAmount = (field: InvoiceImportField, max?: number) => {
+        const text = cell(line.values, field);
+        const amount = text ? parseAmount(text) : null;
+
+        if (
+          text &&
+          (!amount || amount.lt(0) || (max !== undefined && amount.gt(max)))
+        ) {
+          error(line.row, "Angka tidak valid", field);
+        }
+
+        return amount;
+      };
+
+      const quantityText = cell(line.values, "quantity") || "1";
+      const quantity = Number(quantityText);
+      if (!/^\d+$/.test(quantityText) || quantity < 1) {
+        error(line.row, "Kuantitas harus bilangan bulat positif", "quantity");
+      }
+
+      const price = lineAmount("price");
+      if (!price) {
+        error(line.row, "Harga wajib diisi", "price");
+      }
+
+      const itemDiscount = lineAmount("itemDiscount");
+      const taxExemptText = cell(line.values, "taxExempt");
+      const taxExempt = taxExemptText ? parseBoolean(taxExemptText) : false;
+      if (taxExempt === null) {
+        error(line.row, 'Isi dengan "Ya" atau "Tidak"', "taxExempt");
+      }
+
+      items.push({
+        description,
+        quantity,
+        price: price ?? 0,
+        // The export writes the line discount as an amount
+        discountType: itemDiscount?.gt(0) ? "FIXED" : null,
+        discountValue: itemDiscount ?? 0,
+        taxRate: lineAmount("itemTaxRate", 100),
+        taxExempt: taxExempt ?? false,
+      });
+    }
+
+    // Files with only invoice totals get one tax-free line for the total,
+    // before the invoice discount so the discount still shows
+    if (items.length === 0 && expectedTotal?.gt(0)) {
+      items.push({
+        description: "Total faktur",
+        quantity: 1,
+        price: expectedTotal.plus(discountValue),
+        taxExempt: true,
+      });
+    }
+
+    const customer = findOrAddCustomer(values, row);
+
+    if (
+      report.errors.length > errorCount ||
+      !date ||
+      !dueDate ||
+      !paidAt ||
+      !customer
+    ) {
+      continue;
+    }
+
+    let rate = exchangeRate;
+    if (!rate) {
+      try {
+        rate = await resolveExchangeRate(userId, currency, date);
+      } catch (err) {
+        if (!(err instanceof AppError)) {
+          throw err;
+        }
+
+        error(row, err.message, "exchangeRate");
+        continue;
+      }
+    }
+
+    // The invoice discount is also exported as an amount
+    const totals = calculateInvoiceTotals(
+      items,
+      taxRate,
+      { type: discountValue.gt(0) ? "FIXED" : null, value: discountValue },
+      { currency, taxRounding: settings?.taxRounding }
+    );
+
+    if (expectedTotal && !expectedTotal.equals(totals.total)) {
+      error(
+        row,
+        `Total di file ${expectedTotal} berbeda dengan hasil perhitungan ${totals.total}`,
+        "total"
+      );
+      continue;
+    }
+
+    // Paid invoices are settled in full, as when marked paid by hand
+    if (status === "PAID" && paid && !paid.equals(totals.total)) {
+      warn(row, "Faktur lunas dicatat dibayar penuh", "amountPaid");
+    }
+    const amountPaid = status === "PAID" ? totals.total : paid ?? money(0);
+    if (amountPaid.gt(totals.total)) {
+      error(row, "Jumlah dibayar melebihi total faktur", "amountPaid");
+      continue;
+    }
+
+    const resolvedStatus =
+      status ??
+      (amountPaid.isZero()
+        ? "UNPAID"
+        : amountPaid.equals(totals.total)
+        ? "PAID"
+        : "PARTIALLY_PAID");
+
+    if (resolvedStatus === "PARTIALLY_PAID" && amountPaid.isZero()) {
+      error(
+        row,
+        "Faktur dibayar sebagian membutuhkan jumlah dibayar",
+        "amountPaid"
+      );
+      continue;
+    }
+
+    prepared.push({
+      row,
+      number,
+      customer,
+      status: resolvedStatus,
+      date,
+      dueDate,
+      paidAt: resolvedStatus === "PAID" ? paidAt : null,
+      currency,
+      exchangeRate: rate,
+      taxRate,
+      discountValue,
+      notes: cell(values, "notes") || null,
+      totals,
+      amountPaid,
+    });
+  }
+
+  report.invoices = prepared.map((invoice) => ({
+    row: invoice.row,
+    number: invoice.number,
+    customer: invoice.customer.name,
+    customerAction: invoice.customer.created ? "CREATED" : "MATCHED",
+    status: invoice.status,
+    date: toDateKey(invoice.date, timeZone),
+    currency: invoice.currency,
+    items: invoice.totals.items.length,
+    total: invoice.totals.total,
+    amountPaid: invoice.amountPaid,
+  }));
+  report.customers = {
+    matched: new Set(
+      prepared
+        .filter((invoice) => !invoice.customer.created)
+        .map((invoice) => invoice.customer.id)
+    ).size,
+    created: newCustomers.length,
+  };
+
+  if (report.errors.length > 0 || options.dryRun) {
+    return finish(report);
+  }
+
+  finish(report);
+
+  report.nextInvoiceNumber = await prisma.$transaction(
+    async (tx) => {
+      await tx.customer.createMany({
+        data: newCustomers.map((customer) => ({ ...customer, userId })),
+      });
+
+      for (const invoice of prepared) {
+        const { id } = await tx.invoice.create({
+          data: {
+            number: invoice.number,
+            status: invoice.status,
+            finalizedAt: invoice.date,
+            paidAt: invoice.paidAt,
+            date: invoice.date,
+            dueDate: invoice.dueDate,
+            subtotal: invoice.totals.subtotal,
+            discountType: invoice.discountValue.gt(0) ? "FIXED" : null,
+            discountValue: invoice.discountValue,
+            discount: invoice.totals.discount,
+            taxRate: invoice.taxRate,
+            tax: invoice.totals.tax,
+            total: invoice.totals.total,
+            currency: invoice.currency,
+            exchangeRate: invoice.exchangeRate,
+            notes: invoice.notes,
+            userId,
+            customerId: invoice.customer.id,
+            items: {
+              create: invoice.totals.items.map((item) => ({
+                description: item.description,
+                quantity: item.quantity,
+                price: item.price,
+                discountType: item.discountType ?? null,
+                discountValue: item.discountValue ?? 0,
+                discount: item.discount,
+                amount: item.amount,
+                taxRate: item.taxRate ?? null,
+                taxExempt: item.taxExempt ?? false,
+                tax: item.tax,
+              })),
+            },
+            // What was paid before the import, as a single ledger entry
+            payments: invoice.amountPaid.gt(0)
+              ? {
+                  create: {
+                    amount: invoice.amountPaid,
+                    date: invoice.paidAt ?? invoice.date,
+                    notes: "Diimpor dari CSV",
+                  },
+                }
+              : undefined,
+          },
+          select: { id: true },
+        });
+
+        await recordInvoiceActivity(
+          id,
+          {
+            type: "CREATED",
+            author: byUser(userId),
+            details: { source: "IMPORT" },
+          },
+          tx
+        );
+      }
+
+      // The numbering is left alone unless asked, imported numbers usually
+      // come from another system's sequence
+      return options.advanceNumbering
+        ? advanceInvoiceSequence(
+            tx,
+            userId,
+            prepared.map((invoice) => invoice.number)
+          )
+        : undefined;
+    },
+    { timeout: IMPORT_TRANSACTION_TIMEOUT }
+  );
+
+  return report;
+}
+
+// Completes the report, nothing may be saved from a file with errors
+function finish(report: InvoiceImportReport): InvoiceImportReport {
+  report.valid = report.errors.length === 0;
+  report.errors.sort((a, b) => a.row - b.row);
+  report.warnings.sort((a, b) => a.row - b.row);
+
+  if (!report.valid && !report.dryRun) {
+    throw new AppError(
+      400,
+      "Impor dibatalkan, perbaiki kesalahan pada file terlebih dahulu",
+      report
+    );
+  }
+
+  return report;
+}
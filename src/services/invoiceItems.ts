@@ -0,0 +1,78 @@
+import { DiscountType, InvoiceItem, Prisma } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import { MoneyInput } from "../utils/money";
+import {
+  calculateInvoiceTotals,
+  InvoiceDiscount,
+  TotalsOptions,
+} from "./invoiceTotals";
+
+type PrismaTx = Prisma.TransactionClient;
+
+export interface InvoiceItemInput {
+  id?: string;
+  description: string;
+  quantity: number;
+  price: MoneyInput;
+  discountType?: DiscountType | null;
+  discountValue?: MoneyInput;
+  taxRate?: MoneyInput | null;
+  taxExempt?: boolean;
+}
+
+// Sync an invoice's items with an edited list: items with an id are updated,
+// items without one are created and items missing from the list are deleted.
+// Returns the recalculated totals for the invoice.
+export async function replaceInvoiceItems(
+  tx: PrismaTx,
+  invoiceId: string,
+  existingItems: Pick<InvoiceItem, "id">[],
+  items: InvoiceItemInput[],
+  taxRate: MoneyInput,
+  discount?: InvoiceDiscount | null,
+  options?: TotalsOptions
+) {
+  const existingIds = new Set(existingItems.map((item) => item.id));
+  const keptIds = new Set<string>();
+
+  for (const item of items) {
+    if (item.id && !existingIds.has(item.id)) {
+      throw new AppError(400, `Item ${item.id} tidak ditemukan pada faktur`);
+    }
+    if (item.id) {
+      keptIds.add(item.id);
+    }
+  }
+
+  const totals = calculateInvoiceTotals(items, taxRate, discount, options);
+
+  await tx.invoiceItem.deleteMany({
+    where: {
+      invoiceId,
+      id: { notIn: Array.from(keptIds) },
+    },
+  });
+
+  for (const item of totals.items) {
+    const data = {
+      description: item.description,
+      quantity: item.quantity,
+      price: item.price,
+      discountType: item.discountType ?? null,
+      discountValue: item.discountValue ?? 0,
+      discount: item.discount,
+      amount: item.amount,
+      taxRate: item.taxRate ?? null,
+      taxExempt: item.taxExempt ?? false,
+      tax: item.tax,
+    };
+
+    if (item.id) {
+      await tx.invoiceItem.update({ where: { id: item.id }, data });
+    } else {
+      await tx.invoiceItem.create({ data: { ...data, invoiceId } });
+    }
+  }
+
+  return totals;
+}
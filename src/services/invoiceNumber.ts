@@ -0,0 +1,372 @@
+import { Prisma, SequenceReset, Settings } from "@prisma/client";
+import { randomUUID } from "crypto";
+import { AppError } from "../middleware/errorHandler";
+import { prisma } from "../utils/prisma";
+import { DEFAULT_TIMEZONE, toDateKey } from "../utils/timezone";
+
+type PrismaTx = Prisma.TransactionClient;
+
+const TOKEN_PATTERN = /\{(PREFIX|YYYY|MM|SEQ(?::(\d+))?)\}/g;
+
+// Longest zero padding accepted for {SEQ:n}
+const MAX_SEQUENCE_DIGITS = 10;
+
+/**
+ * Checks a number format and reset rule before they are saved
+ * @returns An error message, or null if the combination is valid
+ */
+export function validateInvoiceNumberFormat(
+  format: string,
+  reset: SequenceReset
+): string | null {
+  const leftover = format.replace(TOKEN_PATTERN, "");
+  if (/[{}]/.test(leftover)) {
+    return "Format nomor hanya boleh memakai {PREFIX}, {YYYY}, {MM} dan {SEQ}";
+  }
+
+  const sequenceTokens = Array.from(format.matchAll(TOKEN_PATTERN)).filter(
+    (match) => match[1].startsWith("SEQ")
+  );
+  if (sequenceTokens.length !== 1) {
+    return "Format nomor harus memuat tepat satu {SEQ}";
+  }
+
+  const digits = Number(sequenceTokens[0][2] || 0);
+  if (digits > MAX_SEQUENCE_DIGITS) {
+    return `Panjang {SEQ} maksimal ${MAX_SEQUENCE_DIGITS} digit`;
+  }
+
+  // Without the period in the number, a reset would repeat earlier numbers
+  if (reset !== "NEVER" && !format.includes("{YYYY}")) {
+    return "Format nomor dengan reset berkala harus memuat {YYYY}";
+  }
+  if (reset === "MONTHLY" && !format.includes("{MM}")) {
+    return "Format nomor dengan reset bulanan harus memuat {MM}";
+  }
+
+  return null;
+}
+
+// The year or month a sequence counts in, null if it never resets
+function sequencePeriod(reset: SequenceReset, dateKey: string): string | null {
+  switch (reset) {
+    case "YEARLY":
+      return dateKey.slice(0, 4);
+    case "MONTHLY":
+      return dateKey.slice(0, 7);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Renders an invoice number from a format template
+ * @param format Template such as "{PREFIX}/{YYYY}/{SEQ:4}"
+ * @param prefix Value for {PREFIX}, "INV" if not set
+ * @param sequence The sequence number for {SEQ}
+ * @param dateKey Issue date as YYYY-MM-DD in the business's time zone
+ */
+export function formatInvoiceNumber(
+  format: string,
+  prefix: string | null,
+  sequence: number,
+  dateKey: string
+): string {
+  return format.replace(TOKEN_PATTERN, (_, token: string, digits?: string) => {
+    switch (token) {
+      case "PREFIX":
+        return prefix || "INV";
+      case "YYYY":
+        return dateKey.slice(0, 4);
+      case "MM":
+        return dateKey.slice(5, 7);
+      default:
+        return String(sequence).padStart(Number(digits || 0), "0");
+    }
+  });
+}
+
+// Sequence the next invoice in a period gets, without reserving it.
+// Periodic resets count in InvoiceSequence, NEVER in Settings.
+async function peekSequence(
+  client: PrismaTx,
+  userId: string,
+  nextInvoiceNumber: number,
+  period: string | null
+): Promise<number> {
+  if (!period) {
+    return nextInvoiceNumber;
+  }
+
+  const sequence = await client.invoiceSequence.findUnique({
+    where: { userId_period: { userId, period } },
+    select: { nextNumber: true },
+  });
+
+  return sequence?.nextNumber ?? 1;
+}
+
+// Claims the next sequence of a period. The upsert locks the counter row,
+// so concurrent requests always get distinct numbers.
+async function claimSequence(
+  tx: PrismaTx,
+  userId: string,
+  period: string | null
+): Promise<number> {
+  if (!period) {
+    const { nextInvoiceNumber } = await tx.settings.update({
+      where: { userId },
+      data: { nextInvoiceNumber: { increment: 1 } },
+      select: { nextInvoiceNumber: true },
+    });
+
+    return nextInvoiceNumber - 1;
+  }
+
+  const [{ nextNumber }] = await tx.$queryRaw<{ nextNumber: number }[]>`
+    INSERT INTO "InvoiceSequence" ("id", "userId", "period", "nextNumber", "updatedAt")
+    VALUES (${randomUUID()}, ${userId}, ${period}, 2, NOW())
+    ON CONFLICT ("userId", "period")
+    DO UPDATE SET "nextNumber" = "InvoiceSequence"."nextNumber" + 1, "updatedAt" = NOW()
+    RETURNING "nextNumber"`;
+
+  return nextNumber - 1;
+}
+
+/**
+ * Reserves the next invoice number for a user. Must run inside the
+ * transaction that creates the invoice so the number is released on
+ * rollback. With yearly or monthly resets every period keeps its own
+ * counter, so a backdated invoice continues the sequence of its own period
+ * and never rewinds another one.
+ * @param date Issue date, picks the period for yearly or monthly resets
+ */
+export async function allocateInvoiceNumber(
+  tx: PrismaTx,
+  userId: string,
+  date: Date = new Date()
+): Promise<string> {
+  const settings = await tx.settings.findUnique({
+    where: { userId },
+    select: {
+      invoicePrefix: true,
+      invoiceNumberFormat: true,
+      invoiceNumberReset: true,
+      timezone: true,
+    },
+  });
+
+  if (!settings) {
+    throw new AppError(400, "User settings not found");
+  }
+
+  const dateKey = toDateKey(date, settings.timezone || DEFAULT_TIMEZONE);
+  const period = sequencePeriod(settings.invoiceNumberReset, dateKey);
+
+  // Numbers saved outside the counter, such as imports or invoices numbered
+  // before a period had its own counter, are skipped
+  for (;;) {
+    const number = formatInvoiceNumber(
+      settings.invoiceNumberFormat,
+      settings.invoicePrefix,
+      await claimSequence(tx, userId, period),
+      dateKey
+    );
+
+    const taken = await tx.invoice.findFirst({
+      where: { userId, number },
+      select: { id: true },
+    });
+
+    if (!taken) {
+      return number;
+    }
+  }
+}
+
+// Matches numbers rendered from a format and captures their parts
+function invoiceNumberPattern(format: string, prefix: string | null): RegExp {
+  let pattern = "";
+  let last = 0;
+
+  for (const match of format.matchAll(TOKEN_PATTERN)) {
+    pattern += escapeRegExp(format.slice(last, match.index));
+    last = (match.index ?? 0) + match[0].length;
+
+    switch (match[1]) {
+      case "PREFIX":
+        pattern += escapeRegExp(prefix || "INV");
+        break;
+      case "YYYY":
+        pattern += "(?<year>\\d{4})";
+        break;
+      case "MM":
+        pattern += "(?<month>\\d{2})";
+        break;
+      default:
+        pattern += "(?<sequence>\\d+)";
+    }
+  }
+
+  return new RegExp(`^${pattern}${escapeRegExp(format.slice(last))}$`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Moves the sequence past numbers that were saved without allocating them,
+ * such as imported invoices. Only numbers that follow the current format
+ * count, each moves the counter of its own period; counters never go back.
+ * Must run inside the transaction that saves the invoices.
+ * @param numbers The invoice numbers just saved
+ * @returns The sequence the next invoice dated on date will get
+ */
+export async function advanceInvoiceSequence(
+  tx: PrismaTx,
+  userId: string,
+  numbers: string[],
+  date: Date = new Date()
+): Promise<number> {
+  // Lock the settings row so no invoice is numbered in between
+  const { count } = await tx.settings.updateMany({
+    where: { userId },
+    data: { nextInvoiceNumber: { increment: 0 } },
+  });
+
+  if (count === 0) {
+    throw new AppError(400, "User settings not found");
+  }
+
+  const settings = await tx.settings.findUniqueOrThrow({
+    where: { userId },
+    select: {
+      invoicePrefix: true,
+      invoiceNumberFormat: true,
+      invoiceNumberReset: true,
+      nextInvoiceNumber: true,
+      timezone: true,
+    },
+  });
+
+  const pattern = invoiceNumberPattern(
+    settings.invoiceNumberFormat,
+    settings.invoicePrefix
+  );
+
+  // Highest imported sequence per period, "" stands for a sequence that
+  // never resets
+  const highest = new Map<string, number>();
+  for (const number of numbers) {
+    const parts = pattern.exec(number)?.groups;
+    if (!parts) {
+      continue;
+    }
+
+    const numberPeriod =
+      sequencePeriod(
+        settings.invoiceNumberReset,
+        `${parts.year}-${parts.month ?? "01"}`
+      ) ?? "";
+    highest.set(
+      numberPeriod,
+      Math.max(highest.get(numberPeriod) ?? 0, Number(parts.sequence))
+    );
+  }
+
+  for (const [numberPeriod, sequence] of highest) {
+    if (!numberPeriod) {
+      if (sequence >= settings.nextInvoiceNumber) {
+        await tx.settings.update({
+          where: { userId },
+          data: { nextInvoiceNumber: sequence + 1 },
+        });
+      }
+      continue;
+    }
+
+    await tx.$executeRaw`
+      INSERT INTO "InvoiceSequence" ("id", "userId", "period", "nextNumber", "updatedAt")
+      VALUES (${randomUUID()}, ${userId}, ${numberPeriod}, ${sequence + 1}, NOW())
+      ON CONFLICT ("userId", "period")
+      DO UPDATE SET "nextNumber" = GREATEST("InvoiceSequence"."nextNumber", EXCLUDED."nextNumber"), "updatedAt" = NOW()`;
+  }
+
+  const dateKey = toDateKey(date, settings.timezone || DEFAULT_TIMEZONE);
+  const period = sequencePeriod(settings.invoiceNumberReset, dateKey);
+
+  return peekSequence(
+    tx,
+    userId,
+    Math.max(settings.nextInvoiceNumber, (highest.get("") ?? 0) + 1),
+    period
+  );
+}
+
+/**
+ * Shows the number the next invoice would get, optionally with unsaved
+ * numbering settings. Nothing is reserved.
+ */
+export async function previewInvoiceNumber(
+  userId: string,
+  overrides: Partial<
+    Pick<
+      Settings,
+      "invoicePrefix" | "invoiceNumberFormat" | "invoiceNumberReset"
+    >
+  > = {},
+  date: Date = new Date()
+) {
+  const current = await prisma.settings.findUnique({
+    where: { userId },
+    select: {
+      invoicePrefix: true,
+      invoiceNumberFormat: true,
+      invoiceNumberReset: true,
+      nextInvoiceNumber: true,
+      timezone: true,
+    },
+  });
+
+  if (!current) {
+    throw new AppError(404, "Pengaturan tidak ditemukan");
+  }
+
+  const settings = {
+    ...current,
+    invoicePrefix: overrides.invoicePrefix ?? current.invoicePrefix,
+    invoiceNumberFormat:
+      overrides.invoiceNumberFormat ?? current.invoiceNumberFormat,
+    invoiceNumberReset:
+      overrides.invoiceNumberReset ?? current.invoiceNumberReset,
+  };
+  const error = validateInvoiceNumberFormat(
+    settings.invoiceNumberFormat,
+    settings.invoiceNumberReset
+  );
+
+  if (error) {
+    throw new AppError(400, error);
+  }
+
+  const dateKey = toDateKey(date, settings.timezone || DEFAULT_TIMEZONE);
+  const sequence = await peekSequence(
+    prisma,
+    userId,
+    settings.nextInvoiceNumber,
+    sequencePeriod(settings.invoiceNumberReset, dateKey)
+  );
+
+  return {
+    number: formatInvoiceNumber(
+      settings.invoiceNumberFormat,
+      settings.invoicePrefix,
+      sequence,
+      dateKey
+    ),
+    sequence,
+    format: settings.invoiceNumberFormat,
+    reset: settings.invoiceNumberReset,
+  };
+}
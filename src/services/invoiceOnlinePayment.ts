@@ -0,0 +1,389 @@
+import { Invoice, InvoiceStatus, Prisma } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import { decryptSecret } from "../utils/crypto";
+import { InvoicePaymentOptions } from "../utils/email";
+import { logger } from "../utils/logger";
+import {
+  createMidtransClients,
+  MidtransKeys,
+  MidtransNotification,
+  toPaymentStatus,
+  verifyMidtransSignature,
+} from "../utils/midtrans";
+import { money } from "../utils/money";
+import { prisma } from "../utils/prisma";
+import { toDynamicQris } from "../utils/qris";
+import {
+  paymentDetails,
+  recordInvoiceActivity,
+  SYSTEM,
+} from "./invoiceActivity";
+import {
+  calculateBalance,
+  lockInvoice,
+  syncInvoicePaymentStatus,
+  withBalances,
+} from "./invoicePayment";
+import {
+  ensureShareToken,
+  findSharedInvoice,
+  invoicePayUrl,
+  invoiceShareUrl,
+} from "./invoiceShare";
+
+// Invoices that are issued and still waiting for payment
+const PAYABLE_STATUSES: InvoiceStatus[] = [
+  "UNPAID",
+  "PARTIALLY_PAID",
+  "OVERDUE",
+];
+
+// Midtrans and QRIS only settle rupiah
+const GATEWAY_CURRENCY = "IDR";
+
+// Snap tokens expire after 24 hours, an unpaid checkout is reused until
+// shortly before that
+const CHECKOUT_REUSE_MS = 23 * 60 * 60 * 1000;
+
+// The business's own merchant keys, or null if online payment is not set up
+async function getMerchantKeys(userId: string): Promise<MidtransKeys | null> {
+  const settings = await prisma.settings.findUnique({
+    where: { userId },
+    select: {
+      midtransServerKey: true,
+      midtransClientKey: true,
+      midtransIsProduction: true,
+    },
+  });
+
+  if (!settings?.midtransServerKey || !settings.midtransClientKey) {
+    return null;
+  }
+
+  return {
+    serverKey: decryptSecret(settings.midtransServerKey),
+    clientKey: settings.midtransClientKey,
+    isProduction: settings.midtransIsProduction,
+  };
+}
+
+/**
+ * The ways to pay shown on invoice emails and PDFs: a pay-now link if the
+ * business collects payments through Midtrans, and a QRIS code for the
+ * amount due if it has set up QRIS. The pay-now link turns on the invoice's
+ * public link, since that is where the customer pays.
+ */
+export async function getInvoicePaymentOptions(
+  invoice: Pick<
+    Invoice,
+    "id" | "userId" | "status" | "currency" | "total" | "shareToken"
+  >
+): Promise<InvoicePaymentOptions> {
+  if (
+    !PAYABLE_STATUSES.includes(invoice.status) ||
+    invoice.currency !== GATEWAY_CURRENCY
+  ) {
+    return {};
+  }
+
+  const settings = await prisma.settings.findUnique({
+    where: { userId: invoice.userId },
+    select: {
+      midtransServerKey: true,
+      midtransClientKey: true,
+      qrisPayload: true,
+    },
+  });
+
+  if (!settings) {
+    return {};
+  }
+
+  const [{ balanceDue }] = await withBalances([invoice]);
+
+  return {
+    payUrl:
+      settings.midtransServerKey && settings.midtransClientKey
+        ? invoicePayUrl(await ensureShareToken(invoice))
+        : null,
+    qris:
+      settings.qrisPayload && balanceDue.gt(0)
+        ? toDynamicQris(settings.qrisPayload, balanceDue)
+        : null,
+  };
+}
+
+/**
+ * Starts a Midtrans Snap payment of the remaining balance of a shared
+ * invoice, paid to the business's own merchant account. An unpaid checkout
+ * for the same amount is reused.
+ * @param linkToken The token from the public link
+ * @returns Snap token and redirect URL for the customer
+ */
+export async function createInvoiceCheckout(linkToken: string) {
+  const { id } = await findSharedInvoice(linkToken);
+  const invoice = await prisma.invoice.findUniqueOrThrow({
+    where: { id },
+    include: {
+      customer: true,
+      payments: {
+        select: { amount: true },
+      },
+    },
+  });
+
+  if (invoice.status === "PAID") {
+    throw new AppError(400, "Faktur sudah lunas");
+  }
+  if (invoice.status === "PENDING_VERIFICATION") {
+    throw new AppError(400, "Bukti pembayaran sebelumnya masih diperiksa");
+  }
+  if (!PAYABLE_STATUSES.includes(invoice.status)) {
+    throw new AppError(400, "Faktur tidak dapat menerima pembayaran");
+  }
+  if (invoice.currency !== GATEWAY_CURRENCY) {
+    throw new AppError(
+      400,
+      "Pembayaran online hanya tersedia untuk faktur dalam Rupiah"
+    );
+  }
+
+  const keys = await getMerchantKeys(invoice.userId);
+  if (!keys) {
+    throw new AppError(400, "Pembayaran online belum diaktifkan");
+  }
+
+  // Midtrans only accepts whole rupiah, round up so the invoice is settled
+  const amount = calculateBalance(
+    invoice.total,
+    invoice.payments
+  ).balanceDue.toDecimalPlaces(0, Prisma.Decimal.ROUND_UP);
+
+  const existing = await prisma.invoiceOnlinePayment.findFirst({
+    where: {
+      invoiceId: invoice.id,
+      status: "PENDING",
+      amount,
+      snapToken: { not: null },
+      createdAt: { gte: new Date(Date.now() - CHECKOUT_REUSE_MS) },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  if (existing) {
+    return {
+      orderId: existing.id,
+      amount: existing.amount,
+      token: existing.snapToken!,
+      redirectUrl: existing.redirectUrl!,
+      clientKey: keys.clientKey,
+      isProduction: keys.isProduction,
+    };
+  }
+
+  const payment = await prisma.invoiceOnlinePayment.create({
+    data: { invoiceId: invoice.id, amount },
+  });
+  const shareUrl = invoiceShareUrl(invoice.shareToken!);
+
+  let transaction: { token: string; redirect_url: string };
+  try {
+    transaction = await createMidtransClients(keys).snap.createTransaction({
+      transaction_details: {
+        order_id: payment.id,
+        gross_amount: amount.toNumber(),
+      },
+      customer_details: {
+        first_name: invoice.customer.name,
+        email: invoice.customer.email || undefined,
+        phone: invoice.customer.phone || undefined,
+      },
+      callbacks: {
+        finish: shareUrl,
+        error: shareUrl,
+        pending: shareUrl,
+      },
+    });
+  } catch (error) {
+    logger.error(
+      `Error creating Midtrans transaction for invoice ${invoice.id}:`,
+      error
+    );
+    await prisma.invoiceOnlinePayment.update({
+      where: { id: payment.id },
+      data: { status: "FAILED" },
+    });
+    throw new AppError(502, "Gagal membuat transaksi pembayaran");
+  }
+
+  await prisma.invoiceOnlinePayment.update({
+    where: { id: payment.id },
+    data: {
+      snapToken: transaction.token,
+      redirectUrl: transaction.redirect_url,
+    },
+  });
+
+  return {
+    orderId: payment.id,
+    amount,
+    token: transaction.token,
+    redirectUrl: transaction.redirect_url,
+    clientKey: keys.clientKey,
+    isProduction: keys.isProduction,
+  };
+}
+
+/**
+ * Handles a Midtrans notification for an invoice payment. The signature is
+ * checked with the business's server key and the status is confirmed with
+ * Midtrans before a settled payment is added to the invoice's payment
+ * ledger with the Midtrans transaction id as reference. Repeated
+ * notifications for the same order are ignored.
+ */
+export async function handleInvoicePaymentNotification(
+  notification: MidtransNotification
+) {
+  const payment = await prisma.invoiceOnlinePayment.findUnique({
+    where: { id: notification.order_id },
+    include: {
+      invoice: {
+        select: { id: true, userId: true },
+      },
+    },
+  });
+
+  if (!payment) {
+    throw new AppError(404, "Transaksi tidak ditemukan");
+  }
+
+  const keys = await getMerchantKeys(payment.invoice.userId);
+  if (!keys || !verifyMidtransSignature(notification, keys.serverKey)) {
+    throw new AppError(400, "Invalid signature key");
+  }
+
+  // Double check payment status via Midtrans API
+  let transaction: {
+    transaction_id: string;
+    transaction_status: string;
+    fraud_status?: string;
+    gross_amount: string;
+    payment_type?: string;
+  };
+  try {
+    transaction = await createMidtransClients(keys).coreApi.transaction.status(
+      payment.id
+    );
+  } catch (error) {
+    logger.error(`Error verifying Midtrans transaction ${payment.id}:`, error);
+    throw new AppError(400, "Failed to verify transaction status");
+  }
+
+  if (transaction.transaction_status !== notification.transaction_status) {
+    throw new AppError(400, "Transaction status mismatch");
+  }
+  if (!money(transaction.gross_amount).equals(payment.amount)) {
+    throw new AppError(400, "Transaction amount mismatch");
+  }
+
+  const status = toPaymentStatus(
+    transaction.transaction_status,
+    transaction.fraud_status
+  );
+  const gatewayData = {
+    gatewayReference: transaction.transaction_id,
+    paymentType: transaction.payment_type,
+  };
+
+  if (status !== "SUCCESS") {
+    await prisma.invoiceOnlinePayment.updateMany({
+      where: { id: payment.id, status: "PENDING" },
+      data: { status, ...gatewayData },
+    });
+
+    return { orderId: payment.id, status };
+  }
+
+  const paidAt = new Date();
+  const result = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.invoiceOnlinePayment.updateMany({
+      where: { id: payment.id, status: { not: "SUCCESS" } },
+      data: { status, paidAt, ...gatewayData },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    // The invoice may have been cancelled or paid another way since the
+    // checkout started, only what is still due is added to it
+    await lockInvoice(tx, payment.invoiceId);
+    const invoice = await tx.invoice.findUniqueOrThrow({
+      where: { id: payment.invoiceId },
+      include: {
+        payments: {
+          select: { amount: true },
+        },
+      },
+    });
+    const { balanceDue } = calculateBalance(invoice.total, invoice.payments);
+    const applied =
+      invoice.status === "CANCELLED" || invoice.status === "DRAFT"
+        ? money(0)
+        : Prisma.Decimal.min(payment.amount, balanceDue);
+    const excessAmount = payment.amount.minus(applied);
+
+    if (excessAmount.gt(0)) {
+      logger.warn(
+        `Midtrans order ${payment.id} settled ${excessAmount} more than invoice ${invoice.id} owes, kept for review`
+      );
+      await tx.invoiceOnlinePayment.update({
+        where: { id: payment.id },
+        data: { excessAmount },
+      });
+    }
+
+    if (applied.lte(0)) {
+      return { invoice, excessAmount };
+    }
+
+    const invoicePayment = await tx.invoicePayment.create({
+      data: {
+        invoiceId: payment.invoiceId,
+        amount: applied,
+        date: paidAt,
+        method: "ONLINE",
+        reference: transaction.transaction_id,
+        notes: transaction.payment_type
+          ? `Midtrans (${transaction.payment_type})`
+          : "Midtrans",
+      },
+    });
+
+    await recordInvoiceActivity(
+      payment.invoiceId,
+      {
+        type: "PAYMENT_RECORDED",
+        author: SYSTEM,
+        details: {
+          ...paymentDetails(invoicePayment),
+          orderId: payment.id,
+          ...(excessAmount.gt(0) && { excessAmount: excessAmount.toString() }),
+        },
+      },
+      tx
+    );
+
+    return {
+      invoice: await syncInvoicePaymentStatus(tx, payment.invoiceId, SYSTEM),
+      excessAmount,
+    };
+  });
+
+  return {
+    orderId: payment.id,
+    status,
+    invoiceStatus: result?.invoice.status,
+    excessAmount: result?.excessAmount.gt(0) ? result.excessAmount : undefined,
+  };
+}
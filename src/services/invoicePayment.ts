@@ -0,0 +1,146 @@
+import { Invoice, InvoiceStatus, Prisma } from "@prisma/client";
+import { money, Money, MoneyInput, sumMoney } from "../utils/money";
+import { prisma } from "../utils/prisma";
+import {
+  ActivityAuthor,
+  recordInvoiceActivity,
+  statusActivityType,
+} from "./invoiceActivity";
+
+type PrismaTx = Prisma.TransactionClient;
+
+export interface PaymentBalance {
+  amountPaid: Money;
+  balanceDue: Money;
+}
+
+export function calculateBalance(
+  total: MoneyInput,
+  payments: { amount: MoneyInput }[]
+): PaymentBalance {
+  const amountPaid = sumMoney(payments.map((payment) => payment.amount));
+  const balanceDue = money(total).minus(amountPaid);
+
+  return {
+    amountPaid,
+    balanceDue: balanceDue.gt(0) ? balanceDue : money(0),
+  };
+}
+
+/**
+ * Locks an invoice until the transaction ends, so a payment is checked
+ * against the balance left by payments recorded at the same time
+ */
+export async function lockInvoice(tx: PrismaTx, invoiceId: string) {
+  await tx.$queryRaw`SELECT id FROM "Invoice" WHERE id = ${invoiceId} FOR UPDATE`;
+}
+
+// Add amountPaid/balanceDue to an invoice loaded with its payments
+export function withBalance<
+  T extends { total: MoneyInput; payments: { amount: MoneyInput }[] }
+>(invoice: T): T & PaymentBalance {
+  return {
+    ...invoice,
+    ...calculateBalance(invoice.total, invoice.payments),
+  };
+}
+
+// Add amountPaid/balanceDue to a list of invoices without loading payments
+export async function withBalances<T extends { id: string; total: MoneyInput }>(
+  invoices: T[]
+): Promise<(T & PaymentBalance)[]> {
+  if (invoices.length === 0) {
+    return [];
+  }
+
+  const sums = await prisma.invoicePayment.groupBy({
+    by: ["invoiceId"],
+    where: { invoiceId: { in: invoices.map((invoice) => invoice.id) } },
+    _sum: { amount: true },
+  });
+
+  const paidByInvoice = new Map(
+    sums.map((sum) => [sum.invoiceId, sum._sum.amount || 0])
+  );
+
+  return invoices.map((invoice) => ({
+    ...invoice,
+    ...calculateBalance(invoice.total, [
+      { amount: paidByInvoice.get(invoice.id) ?? 0 },
+    ]),
+  }));
+}
+
+function resolvePaymentStatus(
+  invoice: Pick<Invoice, "status" | "total">,
+  { amountPaid, balanceDue }: PaymentBalance
+): InvoiceStatus {
+  // Drafts cannot take payments and cancelled invoices stay cancelled
+  if (invoice.status === "CANCELLED" || invoice.status === "DRAFT") {
+    return invoice.status;
+  }
+
+  if (amountPaid.gt(0) && balanceDue.lte(0)) {
+    return "PAID";
+  }
+
+  if (amountPaid.gt(0)) {
+    // A past-due invoice stays OVERDUE and an uploaded proof stays in review
+    // until the invoice is settled
+    return invoice.status === "OVERDUE" ||
+      invoice.status === "PENDING_VERIFICATION"
+      ? invoice.status
+      : "PARTIALLY_PAID";
+  }
+
+  return invoice.status === "PAID" || invoice.status === "PARTIALLY_PAID"
+    ? "UNPAID"
+    : invoice.status;
+}
+
+// Recalculate the invoice status from its payment ledger. Must run inside the
+// same transaction that changed the payments. A status change is added to the
+// invoice's activity as caused by the author.
+export async function syncInvoicePaymentStatus(
+  tx: PrismaTx,
+  invoiceId: string,
+  author: ActivityAuthor
+): Promise<Invoice> {
+  const invoice = await tx.invoice.findUniqueOrThrow({
+    where: { id: invoiceId },
+    include: {
+      payments: {
+        orderBy: { date: "asc" },
+      },
+    },
+  });
+
+  const balance = calculateBalance(invoice.total, invoice.payments);
+  const status = resolvePaymentStatus(invoice, balance);
+
+  if (status === invoice.status) {
+    return invoice;
+  }
+
+  const lastPayment = invoice.payments[invoice.payments.length - 1];
+
+  const updated = await tx.invoice.update({
+    where: { id: invoiceId },
+    data: {
+      status,
+      paidAt: status === "PAID" ? lastPayment?.date || new Date() : null,
+    },
+  });
+
+  await recordInvoiceActivity(
+    invoiceId,
+    {
+      type: statusActivityType(status),
+      author,
+      changes: { status: { from: invoice.status, to: status } },
+    },
+    tx
+  );
+
+  return updated;
+}
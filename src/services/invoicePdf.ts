@@ -0,0 +1,159 @@
+import { Invoice, PdfTemplate, Settings } from "@prisma/client";
+import { addDays } from "date-fns";
+import { AppError } from "../middleware/errorHandler";
+import { BASE_CURRENCY } from "../utils/currency";
+import { money } from "../utils/money";
+import {
+  DEFAULT_PDF_STYLE,
+  PDF_FONT_NAMES,
+  PDF_HIDEABLE_FIELDS,
+  PdfField,
+  PdfFont,
+  PdfStyle,
+  renderInvoicePDF,
+} from "../utils/pdf";
+import { prisma } from "../utils/prisma";
+import { calculateInvoiceTotals } from "./invoiceTotals";
+
+type PdfSettings = Pick<
+  Settings,
+  | "pdfTemplate"
+  | "brandColor"
+  | "brandFont"
+  | "pdfFooterText"
+  | "pdfHiddenFields"
+>;
+
+const pdfSettingsSelect = {
+  pdfTemplate: true,
+  brandColor: true,
+  brandFont: true,
+  pdfFooterText: true,
+  pdfHiddenFields: true,
+} as const;
+
+/**
+ * The PDF style from a business's brand settings
+ * @param template The invoice's own template, if it has one
+ */
+export function toPdfStyle(
+  settings: PdfSettings | null,
+  template?: PdfTemplate | null
+): PdfStyle {
+  if (!settings) {
+    return { ...DEFAULT_PDF_STYLE, template: template || "CLASSIC" };
+  }
+
+  // Values saved before a font or field was retired fall back to defaults
+  const font = PDF_FONT_NAMES.find((name) => name === settings.brandFont);
+
+  return {
+    template: template || settings.pdfTemplate,
+    accentColor: settings.brandColor || DEFAULT_PDF_STYLE.accentColor,
+    font: font || DEFAULT_PDF_STYLE.font,
+    footerText: settings.pdfFooterText,
+    hiddenFields: PDF_HIDEABLE_FIELDS.filter((field) =>
+      settings.pdfHiddenFields.includes(field)
+    ),
+  };
+}
+
+/**
+ * The style an invoice is printed with: its own template, or the
+ * business's default, with the business's brand settings
+ */
+export async function getInvoicePdfStyle(
+  invoice: Pick<Invoice, "userId" | "pdfTemplate">
+): Promise<PdfStyle> {
+  const settings = await prisma.settings.findUnique({
+    where: { userId: invoice.userId },
+    select: pdfSettingsSelect,
+  });
+
+  return toPdfStyle(settings, invoice.pdfTemplate);
+}
+
+export interface PdfStyleOverrides {
+  pdfTemplate?: PdfTemplate;
+  brandColor?: string | null;
+  brandFont?: PdfFont | null;
+  pdfFooterText?: string | null;
+  pdfHiddenFields?: PdfField[];
+}
+
+/**
+ * Renders a sample invoice with the business's details, to try a style
+ * before saving it
+ * @param overrides Unsaved brand settings, applied over the saved ones
+ * @returns The PDF file
+ */
+export async function previewInvoicePdf(
+  userId: string,
+  overrides: PdfStyleOverrides = {}
+): Promise<Buffer> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      businessName: true,
+      businessEmail: true,
+      businessPhone: true,
+      businessAddress: true,
+      businessLogo: true,
+      settings: {
+        select: { ...pdfSettingsSelect, taxRate: true },
+      },
+    },
+  });
+
+  if (!user?.settings) {
+    throw new AppError(404, "Pengaturan tidak ditemukan");
+  }
+
+  const { settings, ...business } = user;
+  // In rupiah so the sample has no exchange rate to make up
+  const currency = BASE_CURRENCY;
+  const taxRate = settings.taxRate ?? money(11);
+  const date = new Date();
+  const totals = calculateInvoiceTotals(
+    [
+      { description: "Jasa desain logo", quantity: 1, price: money(2500000) },
+      { description: "Cetak kartu nama", quantity: 5, price: money(150000) },
+      { description: "Konsultasi (jam)", quantity: 2, price: money(300000) },
+    ],
+    taxRate,
+    null,
+    { currency }
+  );
+
+  return renderInvoicePDF(
+    {
+      id: "preview",
+      number: "PREVIEW-00001",
+      date,
+      dueDate: addDays(date, 14),
+      subtotal: totals.subtotal,
+      discount: totals.discount,
+      taxRate,
+      tax: totals.tax,
+      total: totals.total,
+      currency,
+      exchangeRate: money(1),
+      notes: "Contoh catatan untuk pelanggan.",
+      user: business,
+      customer: {
+        name: "PT Contoh Pelanggan",
+        email: "pelanggan@contoh.co.id",
+        phone: "021-5550123",
+        address: "Jl. Contoh No. 1, Jakarta",
+      },
+      items: totals.items.map((item) => ({
+        ...item,
+        price: money(item.price),
+        taxRate: null,
+        taxExempt: false,
+      })),
+    },
+    {},
+    toPdfStyle({ ...settings, ...overrides })
+  );
+}
@@ -0,0 +1,307 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { AppError } from "../middleware/errorHandler";
+import { renderInvoicePDF } from "../utils/pdf";
+import { prisma } from "../utils/prisma";
+import { shareableUrl, storage } from "../utils/storage";
+import {
+  ActivityAuthor,
+  byUser,
+  CUSTOMER,
+  recordInvoiceActivity,
+  SYSTEM,
+} from "./invoiceActivity";
+import { getInvoicePaymentOptions } from "./invoiceOnlinePayment";
+import { getInvoicePdfStyle } from "./invoicePdf";
+import { withBalance } from "./invoicePayment";
+
+// Links are signed so guessed or altered tokens are rejected before any
+// database lookup
+function shareSecret(): string {
+  return process.env.SHARE_LINK_SECRET || process.env.JWT_SECRET!;
+}
+
+function signShareToken(shareToken: string): string {
+  return createHmac("sha256", shareSecret())
+    .update(shareToken)
+    .digest("base64url");
+}
+
+// The stored share token behind a link token, or null if the signature fails
+function verifyLinkToken(linkToken: string): string | null {
+  const [shareToken, signature] = linkToken.split(".");
+  if (!shareToken || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(signShareToken(shareToken));
+  const actual = Buffer.from(signature);
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+    ? shareToken
+    : null;
+}
+
+/**
+ * Builds the public URL for a shared invoice
+ * @param shareToken The invoice's stored share token
+ */
+export function invoiceShareUrl(shareToken: string): string {
+  const linkToken = `${shareToken}.${signShareToken(shareToken)}`;
+  return `${process.env.FRONTEND_URL}/public/invoices/${linkToken}`;
+}
+
+/**
+ * Builds the public URL where the customer pays a shared invoice online
+ * @param shareToken The invoice's stored share token
+ */
+export function invoicePayUrl(shareToken: string): string {
+  return `${invoiceShareUrl(shareToken)}/pay`;
+}
+
+/**
+ * The share token of an invoice, turning on its public link if needed
+ * @param invoice The invoice with its current share token
+ * @param author Who turned on the link, for the invoice's activity
+ */
+export async function ensureShareToken(
+  invoice: {
+    id: string;
+    shareToken: string | null;
+  },
+  author: ActivityAuthor = SYSTEM
+): Promise<string> {
+  if (invoice.shareToken) {
+    return invoice.shareToken;
+  }
+
+  const shareToken = randomBytes(18).toString("base64url");
+  await prisma.invoice.update({
+    where: { id: invoice.id },
+    data: { shareToken },
+  });
+  await recordInvoiceActivity(invoice.id, { type: "SHARED", author });
+
+  return shareToken;
+}
+
+/**
+ * Turns on the public link of an invoice. An existing link is kept unless
+ * a new one is requested, which makes the old link stop working.
+ */
+export async function shareInvoice(
+  userId: string,
+  invoiceId: string,
+  regenerate = false
+) {
+  const invoice = await prisma.invoice.findFirst({
+    where: { id: invoiceId, userId },
+    select: { id: true, status: true, shareToken: true },
+  });
+
+  if (!invoice) {
+    throw new AppError(404, "Faktur tidak ditemukan");
+  }
+  if (invoice.status === "DRAFT") {
+    throw new AppError(400, "Faktur draf harus difinalisasi terlebih dahulu");
+  }
+
+  const shareToken = await ensureShareToken(
+    {
+      id: invoice.id,
+      shareToken: regenerate ? null : invoice.shareToken,
+    },
+    byUser(userId)
+  );
+
+  return { url: invoiceShareUrl(shareToken) };
+}
+
+/**
+ * Turns off the public link of an invoice, the link stops working at once
+ */
+export async function revokeInvoiceShare(userId: string, invoiceId: string) {
+  const { count } = await prisma.invoice.updateMany({
+    where: { id: invoiceId, userId },
+    data: { shareToken: null },
+  });
+
+  if (count === 0) {
+    throw new AppError(404, "Faktur tidak ditemukan");
+  }
+
+  await recordInvoiceActivity(invoiceId, {
+    type: "SHARE_REVOKED",
+    author: byUser(userId),
+  });
+}
+
+// Customer-safe fields only: no internal ids or license details
+const sharedInvoiceSelect = {
+  number: true,
+  date: true,
+  dueDate: true,
+  status: true,
+  currency: true,
+  subtotal: true,
+  discount: true,
+  taxRate: true,
+  tax: true,
+  total: true,
+  notes: true,
+  paidAt: true,
+  items: {
+    select: {
+      description: true,
+      quantity: true,
+      price: true,
+      discount: true,
+      amount: true,
+      taxRate: true,
+      taxExempt: true,
+    },
+    orderBy: { createdAt: "asc" as const },
+  },
+  payments: {
+    select: { amount: true, date: true },
+    orderBy: { date: "asc" as const },
+  },
+  customer: {
+    select: { name: true, email: true, phone: true, address: true },
+  },
+  user: {
+    select: {
+      businessName: true,
+      businessEmail: true,
+      businessPhone: true,
+      businessAddress: true,
+      businessLogo: true,
+    },
+  },
+};
+
+/**
+ * Finds the invoice behind a public link
+ * @param linkToken The token from the public link
+ * @throws AppError 404 if the link is invalid or revoked
+ */
+export async function findSharedInvoice(linkToken: string) {
+  const shareToken = verifyLinkToken(linkToken);
+  const invoice =
+    shareToken &&
+    (await prisma.invoice.findUnique({
+      where: { shareToken },
+      select: { id: true, firstViewedAt: true },
+    }));
+
+  if (!invoice) {
+    throw new AppError(404, "Faktur tidak ditemukan");
+  }
+
+  return invoice;
+}
+
+// Finds the invoice behind a link token and records the visit
+async function openSharedInvoice(linkToken: string) {
+  const invoice = await findSharedInvoice(linkToken);
+  const viewedAt = new Date();
+  await prisma.invoice.update({
+    where: { id: invoice.id },
+    data: {
+      firstViewedAt: invoice.firstViewedAt ?? viewedAt,
+      lastViewedAt: viewedAt,
+      viewCount: { increment: 1 },
+    },
+  });
+  await recordInvoiceActivity(invoice.id, {
+    type: "VIEWED",
+    author: CUSTOMER,
+  });
+
+  return invoice.id;
+}
+
+/**
+ * The customer's view of a shared invoice, with business details, items,
+ * totals and payment status
+ * @param linkToken The token from the public link
+ */
+export async function getSharedInvoice(linkToken: string) {
+  const id = await openSharedInvoice(linkToken);
+  const invoice = await prisma.invoice.findUniqueOrThrow({
+    where: { id },
+    select: sharedInvoiceSelect,
+  });
+
+  return withBalance(invoice);
+}
+
+// How long the redirect to a shared PDF works, it is opened right away
+const SHARED_PDF_URL_EXPIRY_SECONDS = 60 * 60;
+
+// Fields that change on every visit, they do not affect the PDF
+const UNPRINTED_FIELDS = [
+  "firstViewedAt",
+  "lastViewedAt",
+  "viewCount",
+  "updatedAt",
+  "sharedPdfUrl",
+  "sharedPdfHash",
+] as const;
+
+/**
+ * The PDF of a shared invoice. It is rendered again only when the invoice,
+ * its payment options or the business's PDF style changed since the last
+ * download; downloads are not counted as views.
+ * @param linkToken The token from the public link
+ * @returns URL of the PDF
+ */
+export async function getSharedInvoicePdf(linkToken: string) {
+  const { id } = await findSharedInvoice(linkToken);
+  const invoice = await prisma.invoice.findUniqueOrThrow({
+    where: { id },
+    include: {
+      customer: true,
+      items: {
+        orderBy: { createdAt: "asc" },
+      },
+      user: {
+        select: sharedInvoiceSelect.user.select,
+      },
+    },
+  });
+
+  const options = await getInvoicePaymentOptions(invoice);
+  const style = await getInvoicePdfStyle(invoice);
+
+  const printed: Record<string, unknown> = { ...invoice };
+  for (const field of UNPRINTED_FIELDS) {
+    delete printed[field];
+  }
+  const hash = createHash("sha256")
+    .update(JSON.stringify({ invoice: printed, options, style }))
+    .digest("hex");
+
+  if (invoice.sharedPdfUrl && invoice.sharedPdfHash === hash) {
+    return shareableUrl(invoice.sharedPdfUrl, SHARED_PDF_URL_EXPIRY_SECONDS);
+  }
+
+  const { url } = await storage.put(
+    await renderInvoicePDF(invoice, options, style),
+    {
+      folder: "fakturly/invoices",
+      name: `shared_invoice_${invoice.id}`,
+      contentType: "application/pdf",
+    }
+  );
+  await prisma.invoice.update({
+    where: { id },
+    data: { sharedPdfUrl: url, sharedPdfHash: hash },
+  });
+  await recordInvoiceActivity(id, {
+    type: "PDF_GENERATED",
+    author: CUSTOMER,
+    details: { url },
+  });
+
+  return shareableUrl(url, SHARED_PDF_URL_EXPIRY_SECONDS);
+}
@@ -0,0 +1,127 @@
+import { DiscountType, Prisma, TaxRounding } from "@prisma/client";
+import { BASE_CURRENCY } from "../utils/currency";
+import {
+  money,
+  Money,
+  MoneyInput,
+  percentOf,
+  roundMoney,
+  sumMoney,
+} from "../utils/money";
+
+export interface LineItemInput {
+  description: string;
+  quantity: number;
+  price: MoneyInput;
+  discountType?: DiscountType | null;
+  discountValue?: MoneyInput | null;
+  // Falls back to the invoice tax rate when not set
+  taxRate?: MoneyInput | null;
+  taxExempt?: boolean;
+}
+
+export interface InvoiceDiscount {
+  type: DiscountType | null;
+  value: MoneyInput;
+}
+
+export interface TotalsOptions {
+  // Amounts are rounded to this currency's minor unit
+  currency?: string;
+  // PER_LINE rounds each line's tax, PER_INVOICE only the summed tax
+  taxRounding?: TaxRounding;
+}
+
+export interface InvoiceTotals<T extends LineItemInput> {
+  items: (T & { amount: Money; discount: Money; tax: Money })[];
+  subtotal: Money;
+  discount: Money;
+  tax: Money;
+  total: Money;
+}
+
+// Discount amount for a base value, never more than the base itself
+export function calculateDiscount(
+  base: MoneyInput,
+  type: DiscountType | null | undefined,
+  value: MoneyInput | null | undefined
+): Money {
+  const amount = money(base);
+
+  if (!type || !value || money(value).isZero() || amount.lte(0)) {
+    return money(0);
+  }
+
+  const discount =
+    type === "PERCENTAGE" ? percentOf(amount, value) : money(value);
+  return Prisma.Decimal.min(Prisma.Decimal.max(discount, 0), amount);
+}
+
+// The tax rate that applies to a line after exemptions and overrides
+export function effectiveTaxRate(
+  item: Pick<LineItemInput, "taxRate" | "taxExempt">,
+  invoiceTaxRate: MoneyInput
+): Money {
+  if (item.taxExempt) {
+    return money(0);
+  }
+
+  return money(item.taxRate ?? invoiceTaxRate);
+}
+
+/**
+ * Calculate line amounts and invoice totals
+ * @param items Line items, each with an optional discount and tax rate
+ * @param taxRate Invoice tax percentage used by lines without their own rate
+ * @param invoiceDiscount Discount on the whole invoice, spread over the lines
+ * in proportion to their amount before tax is applied
+ * @param options Currency and tax rounding rule, IDR and per invoice if unset
+ */
+export function calculateInvoiceTotals<T extends LineItemInput>(
+  items: T[],
+  taxRate: MoneyInput,
+  invoiceDiscount?: InvoiceDiscount | null,
+  options: TotalsOptions = {}
+): InvoiceTotals<T> {
+  const currency = options.currency || BASE_CURRENCY;
+  const taxRounding = options.taxRounding || "PER_INVOICE";
+
+  const discounted = items.map((item) => {
+    const gross = roundMoney(money(item.price).times(item.quantity), currency);
+    const discount = roundMoney(
+      calculateDiscount(gross, item.discountType, item.discountValue),
+      currency
+    );
+
+    return { ...item, discount, amount: gross.minus(discount) };
+  });
+  const subtotal = sumMoney(discounted.map((item) => item.amount));
+  const discount = roundMoney(
+    calculateDiscount(subtotal, invoiceDiscount?.type, invoiceDiscount?.value),
+    currency
+  );
+
+  const lineTaxes = discounted.map((item) => {
+    const share = subtotal.gt(0)
+      ? item.amount.dividedBy(subtotal).times(discount)
+      : money(0);
+    const tax = percentOf(
+      item.amount.minus(share),
+      effectiveTaxRate(item, taxRate)
+    );
+
+    return taxRounding === "PER_LINE" ? roundMoney(tax, currency) : tax;
+  });
+  const tax = roundMoney(sumMoney(lineTaxes), currency);
+
+  return {
+    items: discounted.map((item, index) => ({
+      ...item,
+      tax: roundMoney(lineTaxes[index], currency),
+    })),
+    subtotal,
+    discount,
+    tax,
+    total: subtotal.minus(discount).plus(tax),
+  };
+}
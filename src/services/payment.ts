@@ -1,28 +1,25 @@
-import { Payment, PaymentStatus } from "@prisma/client";
-// @ts-ignore
-import midtransClient from "midtrans-client";
+import { Payment, Prisma } from "@prisma/client";
+import type { CoreApi, Snap } from "midtrans-client";
 import { BadRequestError } from "../utils/errors";
+import {
+  createMidtransClients,
+  MidtransNotification,
+  toPaymentStatus,
+  verifyMidtransSignature,
+} from "../utils/midtrans";
+import { money, Money, MoneyInput } from "../utils/money";
 import { prisma } from "../utils/prisma";
-import crypto from "crypto";
+import { calculateDiscount } from "./invoiceTotals";
 
 interface MidtransPaymentParams {
   orderId: string;
-  amount: number;
+  amount: MoneyInput;
   userId: string;
 }
 
-interface MidtransNotification {
-  transaction_status: string;
-  order_id: string;
-  fraud_status?: string;
-  status_code: string;
-  gross_amount: string;
-  signature_key: string;
-}
-
 interface PricingInfo {
-  originalPrice: number;
-  discountedPrice: number;
+  originalPrice: Money;
+  discountedPrice: Money;
   promoCode: string | null;
   promoDescription: string | null;
 }
@@ -40,42 +37,32 @@ const userSelect = {
 };
 
 export class PaymentService {
-  private snap: midtransClient.Snap;
-  private coreApi: midtransClient.CoreApi;
+  private snap: Snap;
+  private coreApi: CoreApi;
   private readonly LICENSE_PRICE: number;
   private readonly serverKey: string;
 
   constructor() {
     this.serverKey = process.env.MIDTRANS_SERVER_KEY!;
-    this.snap = new midtransClient.Snap({
-      isProduction: process.env.NODE_ENV === "production",
-      serverKey: this.serverKey,
-      clientKey: process.env.MIDTRANS_CLIENT_KEY!,
-    });
-
-    this.coreApi = new midtransClient.CoreApi({
+    const { snap, coreApi } = createMidtransClients({
       isProduction: process.env.NODE_ENV === "production",
       serverKey: this.serverKey,
       clientKey: process.env.MIDTRANS_CLIENT_KEY!,
     });
+    this.snap = snap;
+    this.coreApi = coreApi;
 
     this.LICENSE_PRICE = Number(process.env.LICENSE_PRICE_IDR) || 500000;
   }
 
   private verifySignatureKey(notification: MidtransNotification): boolean {
-    const expectedSignature = crypto
-      .createHash("sha512")
-      .update(
-        `${notification.order_id}${notification.status_code}${notification.gross_amount}${this.serverKey}`
-      )
-      .digest("hex");
-
-    return notification.signature_key === expectedSignature;
+    return verifyMidtransSignature(notification, this.serverKey);
   }
 
   async getPricingInfo(promoCode?: string): Promise<PricingInfo> {
     // Default pricing without promo
-    let discountedPrice = this.LICENSE_PRICE;
+    const originalPrice = money(this.LICENSE_PRICE);
+    let discountedPrice = originalPrice;
     let promoDescription = null;
     let validPromoCode = null;
 
@@ -107,34 +94,37 @@ export class PaymentService {
         throw new BadRequestError("Kuota promo sudah habis");
       }
 
-      // Calculate discounted price
-      if (promo.discountType === "PERCENTAGE") {
-        discountedPrice = this.LICENSE_PRICE * (1 - promo.discountValue / 100);
-      } else {
-        discountedPrice = this.LICENSE_PRICE - promo.discountValue;
-      }
-      discountedPrice = Math.max(0, discountedPrice); // Ensure price doesn't go negative
+      // Calculate discounted price, the discount never exceeds the price.
+      // Midtrans only accepts whole rupiah.
+      discountedPrice = originalPrice
+        .minus(
+          calculateDiscount(
+            originalPrice,
+            promo.discountType,
+            promo.discountValue
+          )
+        )
+        .toDecimalPlaces(0, Prisma.Decimal.ROUND_HALF_UP);
 
       const remainingSlots = promo.maxUses - promoUsage;
-      promoDescription =
-        promo.discountValue === 100
-          ? `Selamat! Anda mendapatkan akses GRATIS (tersisa ${remainingSlots} slot)`
-          : `${promo.description} (tersisa ${remainingSlots} slot)`;
+      promoDescription = promo.discountValue.equals(100)
+        ? `Selamat! Anda mendapatkan akses GRATIS (tersisa ${remainingSlots} slot)`
+        : `${promo.description} (tersisa ${remainingSlots} slot)`;
       validPromoCode = promo.code;
     }
 
     return {
-      originalPrice: this.LICENSE_PRICE,
+      originalPrice,
       discountedPrice,
       promoCode: validPromoCode,
       promoDescription,
     };
   }
 
-  async calculateFinalPrice(promoCode?: string | null): Promise<number> {
+  async calculateFinalPrice(promoCode?: string | null): Promise<Money> {
     // If no promo code provided, return original price
     if (!promoCode?.trim()) {
-      return this.LICENSE_PRICE;
+      return money(this.LICENSE_PRICE);
     }
 
     const { discountedPrice } = await this.getPricingInfo(promoCode);
@@ -154,7 +144,7 @@ export class PaymentService {
     const transaction = await this.snap.createTransaction({
       transaction_details: {
         order_id: params.orderId,
-        gross_amount: params.amount,
+        gross_amount: money(params.amount).toNumber(),
       },
       customer_details: {
         first_name: user.businessName,
@@ -203,33 +193,7 @@ export class PaymentService {
       throw new BadRequestError("Payment not found");
     }
 
-    let paymentStatus: PaymentStatus;
-
-    // Handle various transaction statuses
-    switch (transactionStatus) {
-      case "capture":
-        paymentStatus =
-          fraudStatus === "challenge"
-            ? "PENDING"
-            : fraudStatus === "accept"
-            ? "SUCCESS"
-            : "FAILED";
-        break;
-      case "settlement":
-        paymentStatus = "SUCCESS";
-        break;
-      case "pending":
-        paymentStatus = "PENDING";
-        break;
-      case "deny":
-      case "cancel":
-      case "expire":
-      case "failure":
-        paymentStatus = "FAILED";
-        break;
-      default:
-        paymentStatus = "FAILED";
-    }
+    const paymentStatus = toPaymentStatus(transactionStatus, fraudStatus);
 
     // Update payment status in database
     const updatedPayment = await prisma.payment.update({
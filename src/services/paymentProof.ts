@@ -0,0 +1,340 @@
+import { InvoiceStatus, PaymentProofStatus, Prisma } from "@prisma/client";
+import { AppError } from "../middleware/errorHandler";
+import {
+  sendPaymentProofEmail,
+  sendPaymentProofRejectedEmail,
+} from "../utils/email";
+import { logger } from "../utils/logger";
+import { MoneyInput } from "../utils/money";
+import { prisma } from "../utils/prisma";
+import {
+  byUser,
+  CUSTOMER,
+  paymentDetails,
+  recordInvoiceActivity,
+} from "./invoiceActivity";
+import { calculateBalance } from "./invoicePayment";
+import { invoiceShareUrl } from "./invoiceShare";
+
+export interface PaymentProofInput {
+  // URL of the uploaded image
+  url: string;
+  // Amount the customer says was transferred
+  amount?: MoneyInput | null;
+  note?: string | null;
+}
+
+// Invoices that are issued and still waiting for payment
+const OPEN_STATUSES: InvoiceStatus[] = ["UNPAID", "PARTIALLY_PAID", "OVERDUE"];
+
+const reviewInclude = Prisma.validator<Prisma.PaymentProofSubmissionInclude>()({
+  invoice: {
+    include: {
+      customer: true,
+      items: true,
+      user: {
+        select: {
+          businessName: true,
+          businessEmail: true,
+          businessPhone: true,
+          businessAddress: true,
+          businessLogo: true,
+        },
+      },
+    },
+  },
+});
+
+/**
+ * Checks that an invoice accepts a payment proof, before the file is stored
+ * @returns The invoice's current status
+ */
+export async function assertAcceptsPaymentProof(invoiceId: string) {
+  const invoice = await prisma.invoice.findUniqueOrThrow({
+    where: { id: invoiceId },
+    select: { status: true },
+  });
+
+  if (invoice.status === "PENDING_VERIFICATION") {
+    throw new AppError(400, "Bukti pembayaran sebelumnya masih diperiksa");
+  }
+  if (invoice.status === "PAID") {
+    throw new AppError(400, "Faktur sudah lunas");
+  }
+  if (!OPEN_STATUSES.includes(invoice.status)) {
+    throw new AppError(400, "Faktur tidak dapat menerima pembayaran");
+  }
+
+  return invoice;
+}
+
+/**
+ * Records a payment proof uploaded by the customer and puts the invoice in
+ * PENDING_VERIFICATION until the business reviews it
+ * @param invoiceId The invoice behind the public link
+ */
+export async function submitPaymentProof(
+  invoiceId: string,
+  data: PaymentProofInput
+) {
+  const invoice = await assertAcceptsPaymentProof(invoiceId);
+
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.invoice.updateMany({
+      where: { id: invoiceId, status: invoice.status },
+      data: { status: "PENDING_VERIFICATION" },
+    });
+
+    if (count === 0) {
+      throw new AppError(400, "Status faktur telah berubah");
+    }
+
+    const { id, ...proof } = await tx.paymentProofSubmission.create({
+      data: {
+        invoiceId,
+        url: data.url,
+        amount: data.amount,
+        note: data.note,
+        previousStatus: invoice.status,
+      },
+      select: { id: true, amount: true, status: true, createdAt: true },
+    });
+
+    await recordInvoiceActivity(
+      invoiceId,
+      {
+        type: "PROOF_UPLOADED",
+        author: CUSTOMER,
+        changes: {
+          status: { from: invoice.status, to: "PENDING_VERIFICATION" },
+        },
+        details: {
+          proofId: id,
+          url: data.url,
+          amount: proof.amount?.toString() ?? null,
+        },
+      },
+      tx
+    );
+
+    return { status: proof.status, createdAt: proof.createdAt };
+  });
+}
+
+/**
+ * Payment proofs of a business, oldest first so the queue is handled in order
+ * @param status Only proofs with this status, pending ones by default
+ */
+export function listPaymentProofs(
+  userId: string,
+  status: PaymentProofStatus = "PENDING"
+) {
+  return prisma.paymentProofSubmission.findMany({
+    where: { status, invoice: { userId } },
+    include: {
+      invoice: {
+        select: {
+          id: true,
+          number: true,
+          status: true,
+          total: true,
+          currency: true,
+          dueDate: true,
+          customer: {
+            select: { id: true, name: true, email: true },
+          },
+        },
+      },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+async function findPendingProof(userId: string, proofId: string) {
+  const proof = await prisma.paymentProofSubmission.findFirst({
+    where: { id: proofId, invoice: { userId } },
+    include: reviewInclude,
+  });
+
+  if (!proof) {
+    throw new AppError(404, "Bukti pembayaran tidak ditemukan");
+  }
+  if (proof.status !== "PENDING") {
+    throw new AppError(400, "Bukti pembayaran sudah diperiksa");
+  }
+
+  return proof;
+}
+
+/**
+ * Accepts a payment proof: the invoice is marked PAID with the remaining
+ * balance settled in the payment ledger, and the customer gets the payment
+ * proof email
+ */
+export async function approvePaymentProof(userId: string, proofId: string) {
+  const proof = await findPendingProof(userId, proofId);
+  const author = byUser(userId);
+  const paidAt = new Date();
+
+  await prisma.$transaction(async (tx) => {
+    const { count } = await tx.paymentProofSubmission.updateMany({
+      where: { id: proof.id, status: "PENDING" },
+      data: { status: "APPROVED", reviewedAt: paidAt },
+    });
+    const invoiceUpdate = await tx.invoice.updateMany({
+      where: { id: proof.invoiceId, status: "PENDING_VERIFICATION" },
+      data: { status: "PAID", paidAt, paymentProof: proof.url },
+    });
+
+    if (count === 0 || invoiceUpdate.count === 0) {
+      throw new AppError(400, "Status faktur telah berubah");
+    }
+
+    await recordInvoiceActivity(
+      proof.invoiceId,
+      {
+        type: "PROOF_APPROVED",
+        author,
+        details: { proofId: proof.id, url: proof.url },
+      },
+      tx
+    );
+
+    // Settle the remaining balance in the payment ledger
+    const payments = await tx.invoicePayment.findMany({
+      where: { invoiceId: proof.invoiceId },
+      select: { amount: true },
+    });
+    const { balanceDue } = calculateBalance(proof.invoice.total, payments);
+
+    if (balanceDue.gt(0)) {
+      const payment = await tx.invoicePayment.create({
+        data: {
+          invoiceId: proof.invoiceId,
+          amount: balanceDue,
+          date: paidAt,
+          proof: proof.url,
+          notes: proof.note,
+        },
+      });
+
+      await recordInvoiceActivity(
+        proof.invoiceId,
+        {
+          type: "PAYMENT_RECORDED",
+          author,
+          details: paymentDetails(payment),
+        },
+        tx
+      );
+    }
+
+    await recordInvoiceActivity(
+      proof.invoiceId,
+      {
+        type: "PAID",
+        author,
+        changes: { status: { from: "PENDING_VERIFICATION", to: "PAID" } },
+      },
+      tx
+    );
+  });
+
+  if (proof.invoice.customer.email) {
+    try {
+      await sendPaymentProofEmail({
+        ...proof.invoice,
+        status: "PAID",
+        paidAt,
+        paymentProof: proof.url,
+      });
+    } catch (error) {
+      logger.error(
+        `Error sending payment proof email for invoice ${proof.invoiceId}:`,
+        error
+      );
+    }
+  }
+
+  return { id: proof.id, status: "APPROVED" as const, invoiceStatus: "PAID" };
+}
+
+/**
+ * Declines a payment proof: the invoice goes back to its status before the
+ * upload and the customer is told the reason
+ */
+export async function rejectPaymentProof(
+  userId: string,
+  proofId: string,
+  reason: string
+) {
+  const proof = await findPendingProof(userId, proofId);
+
+  const invoiceStatus = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.paymentProofSubmission.updateMany({
+      where: { id: proof.id, status: "PENDING" },
+      data: {
+        status: "REJECTED",
+        rejectionReason: reason,
+        reviewedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      throw new AppError(400, "Bukti pembayaran sudah diperiksa");
+    }
+
+    // Leave the invoice alone if it was settled another way meanwhile
+    const invoiceUpdate = await tx.invoice.updateMany({
+      where: { id: proof.invoiceId, status: "PENDING_VERIFICATION" },
+      data: { status: proof.previousStatus },
+    });
+
+    await recordInvoiceActivity(
+      proof.invoiceId,
+      {
+        type: "PROOF_REJECTED",
+        author: byUser(userId),
+        changes:
+          invoiceUpdate.count > 0
+            ? {
+                status: {
+                  from: "PENDING_VERIFICATION",
+                  to: proof.previousStatus,
+                },
+              }
+            : undefined,
+        details: { proofId: proof.id, reason },
+      },
+      tx
+    );
+
+    return invoiceUpdate.count > 0
+      ? proof.previousStatus
+      : (
+          await tx.invoice.findUniqueOrThrow({
+            where: { id: proof.invoiceId },
+            select: { status: true },
+          })
+        ).status;
+  });
+
+  if (proof.invoice.customer.email) {
+    try {
+      await sendPaymentProofRejectedEmail(
+        proof.invoice,
+        reason,
+        proof.invoice.shareToken
+          ? invoiceShareUrl(proof.invoice.shareToken)
+          : undefined
+      );
+    } catch (error) {
+      logger.error(
+        `Error sending payment proof rejection for invoice ${proof.invoiceId}:`,
+        error
+      );
+    }
+  }
+
+  return { id: proof.id, status: "REJECTED" as const, invoiceStatus };
+}
@@ -0,0 +1,215 @@
+import { Prisma, Quotation, QuotationStatus } from "@prisma/client";
+import { addDays } from "date-fns";
+import { AppError } from "../middleware/errorHandler";
+import { BASE_CURRENCY } from "../utils/currency";
+import { prisma } from "../utils/prisma";
+import { DEFAULT_TIMEZONE, toDateKey } from "../utils/timezone";
+import { createInvoice } from "./invoice";
+
+type PrismaTx = Prisma.TransactionClient;
+
+// Payment term used when a quotation is converted without a due date
+const DEFAULT_PAYMENT_TERM_DAYS = 14;
+
+// Quotations in these statuses can still be edited, sent or converted
+export const OPEN_QUOTATION_STATUSES: QuotationStatus[] = [
+  "DRAFT",
+  "SENT",
+  "ACCEPTED",
+];
+
+// Reserve the next quotation number, separate from the invoice series
+export async function allocateQuotationNumber(
+  tx: PrismaTx,
+  userId: string
+): Promise<string> {
+  const settings = await tx.settings.findUnique({
+    where: { userId },
+    select: { id: true },
+  });
+
+  if (!settings) {
+    throw new AppError(400, "User settings not found");
+  }
+
+  const { quotationPrefix, nextQuotationNumber } = await tx.settings.update({
+    where: { id: settings.id },
+    data: { nextQuotationNumber: { increment: 1 } },
+    select: { quotationPrefix: true, nextQuotationNumber: true },
+  });
+
+  return `${quotationPrefix || "QUO"}${String(nextQuotationNumber - 1).padStart(
+    5,
+    "0"
+  )}`;
+}
+
+// A quotation is valid through the whole of its validUntil day in the
+// business's time zone
+export function isQuotationExpired(
+  quotation: Pick<Quotation, "validUntil">,
+  timeZone: string = DEFAULT_TIMEZONE,
+  now: Date = new Date()
+): boolean {
+  return toDateKey(now, timeZone) > toDateKey(quotation.validUntil, timeZone);
+}
+
+/**
+ * Records the customer's answer from the public quotation link
+ * @param publicToken The token from the link sent to the customer
+ * @param action Whether the customer accepts or rejects the offer
+ * @param reason Optional rejection reason given by the customer
+ */
+export async function respondToQuotation(
+  publicToken: string,
+  action: "accept" | "reject",
+  reason?: string | null
+) {
+  const quotation = await prisma.quotation.findUnique({
+    where: { publicToken },
+    include: {
+      user: {
+        select: {
+          settings: {
+            select: { timezone: true },
+          },
+        },
+      },
+    },
+  });
+
+  if (!quotation) {
+    throw new AppError(404, "Penawaran tidak ditemukan");
+  }
+
+  if (quotation.status !== "SENT") {
+    throw new AppError(400, "Penawaran ini sudah tidak dapat ditanggapi");
+  }
+
+  const now = new Date();
+  const timeZone = quotation.user.settings?.timezone || DEFAULT_TIMEZONE;
+
+  if (isQuotationExpired(quotation, timeZone, now)) {
+    await prisma.quotation.updateMany({
+      where: { id: quotation.id, status: "SENT" },
+      data: { status: "EXPIRED", expiredAt: now },
+    });
+    throw new AppError(400, "Masa berlaku penawaran sudah habis");
+  }
+
+  // Guard on status so a double click cannot flip an answer already given
+  const { count } = await prisma.quotation.updateMany({
+    where: { id: quotation.id, status: "SENT" },
+    data:
+      action === "accept"
+        ? { status: "ACCEPTED", acceptedAt: now }
+        : { status: "REJECTED", rejectedAt: now, rejectionReason: reason },
+  });
+
+  if (count === 0) {
+    throw new AppError(400, "Penawaran ini sudah tidak dapat ditanggapi");
+  }
+
+  return prisma.quotation.findUniqueOrThrow({
+    where: { id: quotation.id },
+  });
+}
+
+/**
+ * Creates an invoice with the next invoice number from a quotation's items
+ * and links both documents. The quotation is marked as accepted.
+ */
+export async function convertQuotationToInvoice(
+  userId: string,
+  quotationId: string,
+  options: { date?: Date; dueDate?: Date } = {}
+) {
+  const quotation = await prisma.quotation.findFirst({
+    where: { id: quotationId, userId },
+    include: {
+      items: true,
+      invoice: {
+        select: { id: true, number: true },
+      },
+    },
+  });
+
+  if (!quotation) {
+    throw new AppError(404, "Penawaran tidak ditemukan");
+  }
+
+  if (quotation.invoice) {
+    throw new AppError(
+      400,
+      `Penawaran sudah dikonversi menjadi faktur ${quotation.invoice.number}`
+    );
+  }
+
+  if (!OPEN_QUOTATION_STATUSES.includes(quotation.status)) {
+    throw new AppError(
+      400,
+      "Penawaran yang ditolak atau kedaluwarsa tidak dapat dikonversi"
+    );
+  }
+
+  const now = new Date();
+  const date = options.date || now;
+  const dueDate = options.dueDate || addDays(date, DEFAULT_PAYMENT_TERM_DAYS);
+
+  if (dueDate < date) {
+    throw new AppError(400, "Jatuh tempo tidak boleh sebelum tanggal faktur");
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const { count } = await tx.quotation.updateMany({
+        where: { id: quotation.id, status: { in: OPEN_QUOTATION_STATUSES } },
+        data: {
+          status: "ACCEPTED",
+          acceptedAt: quotation.acceptedAt || now,
+        },
+      });
+
+      if (count === 0) {
+        throw new AppError(400, "Status penawaran telah berubah");
+      }
+
+      return createInvoice(
+        userId,
+        {
+          customerId: quotation.customerId,
+          date,
+          dueDate,
+          // Quotations are priced in rupiah, not the default currency
+          currency: BASE_CURRENCY,
+          items: quotation.items.map((item) => ({
+            description: item.description,
+            quantity: item.quantity,
+            price: item.price,
+            discountType: item.discountType,
+            discountValue: item.discountValue,
+            taxRate: item.taxRate,
+            taxExempt: item.taxExempt,
+          })),
+          notes: quotation.notes,
+          taxRate: quotation.taxRate,
+          discountType: quotation.discountType,
+          discountValue: quotation.discountValue,
+          quotationId: quotation.id,
+        },
+        { quotationId: quotation.id },
+        tx
+      );
+    });
+  } catch (error) {
+    // The unique quotationId rejects a concurrent second conversion
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002" &&
+      (error.meta?.target as string[] | undefined)?.includes("quotationId")
+    ) {
+      throw new AppError(400, "Penawaran sudah dikonversi menjadi faktur");
+    }
+    throw error;
+  }
+}
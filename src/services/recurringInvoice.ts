@@ -0,0 +1,220 @@
+import { RecurringInterval, RecurringInvoice } from "@prisma/client";
+import { addDays, addMonths, addWeeks, addYears } from "date-fns";
+import { sendInvoiceEmail } from "../utils/email";
+import { logger } from "../utils/logger";
+import { prisma } from "../utils/prisma";
+import { resolveExchangeRate } from "./exchangeRate";
+import { recordInvoiceActivity, SYSTEM } from "./invoiceActivity";
+import { getInvoicePaymentOptions } from "./invoiceOnlinePayment";
+import { allocateInvoiceNumber } from "./invoiceNumber";
+import { calculateInvoiceTotals } from "./invoiceTotals";
+
+// Upper bound when walking a schedule, ~190 years of weekly invoices
+const MAX_OCCURRENCES = 10000;
+
+const businessSelect = {
+  businessName: true,
+  businessEmail: true,
+  businessPhone: true,
+  businessAddress: true,
+  businessLogo: true,
+};
+
+type RecurringSchedule = Pick<
+  RecurringInvoice,
+  "startDate" | "endDate" | "interval" | "intervalCount"
+>;
+
+function addInterval(
+  date: Date,
+  interval: RecurringInterval,
+  amount: number
+): Date {
+  switch (interval) {
+    case "WEEKLY":
+      return addWeeks(date, amount);
+    case "MONTHLY":
+      return addMonths(date, amount);
+    case "YEARLY":
+      return addYears(date, amount);
+  }
+}
+
+/**
+ * Finds the next scheduled date of a recurring profile
+ * @param schedule The profile's schedule fields
+ * @param after The last generated date, or null if nothing was generated yet
+ * @returns The next run date, or null when the schedule has ended
+ */
+export function computeNextRunDate(
+  schedule: RecurringSchedule,
+  after?: Date | null
+): Date | null {
+  // Always step from the start date so monthly schedules starting on the
+  // 31st do not drift to the 28th after February
+  for (let i = 0; i < MAX_OCCURRENCES; i++) {
+    const date = addInterval(
+      schedule.startDate,
+      schedule.interval,
+      i * schedule.intervalCount
+    );
+
+    if (schedule.endDate && date > schedule.endDate) {
+      return null;
+    }
+
+    if (!after || date > after) {
+      return date;
+    }
+  }
+
+  return null;
+}
+
+// Create the invoice for the profile's current run date and advance the
+// schedule. Returns null if the profile is inactive, finished, or the run
+// was already claimed by someone else.
+export async function generateRecurringInvoice(recurringInvoiceId: string) {
+  const profile = await prisma.recurringInvoice.findUnique({
+    where: { id: recurringInvoiceId },
+    include: {
+      items: true,
+      user: {
+        select: {
+          settings: {
+            select: { taxRounding: true },
+          },
+        },
+      },
+    },
+  });
+
+  if (!profile || !profile.isActive || !profile.nextRunDate) {
+    return null;
+  }
+
+  const runDate = profile.nextRunDate;
+  // Fails the run, to be retried next time, if no rate was entered yet
+  const exchangeRate = await resolveExchangeRate(
+    profile.userId,
+    profile.currency,
+    runDate
+  );
+  const { items, subtotal, discount, tax, total } = calculateInvoiceTotals(
+    profile.items,
+    profile.taxRate,
+    { type: profile.discountType, value: profile.discountValue },
+    {
+      currency: profile.currency,
+      taxRounding: profile.user.settings?.taxRounding,
+    }
+  );
+
+  const invoice = await prisma.$transaction(async (tx) => {
+    // Claim the run first so overlapping runs cannot generate it twice
+    const { count } = await tx.recurringInvoice.updateMany({
+      where: { id: profile.id, nextRunDate: runDate },
+      data: {
+        lastRunDate: runDate,
+        nextRunDate: computeNextRunDate(profile, runDate),
+      },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const number = await allocateInvoiceNumber(tx, profile.userId, runDate);
+
+    const invoice = await tx.invoice.create({
+      data: {
+        number,
+        finalizedAt: new Date(),
+        date: runDate,
+        dueDate: addDays(runDate, profile.paymentTermDays),
+        subtotal,
+        discountType: profile.discountType,
+        discountValue: profile.discountValue,
+        discount,
+        taxRate: profile.taxRate,
+        tax,
+        total,
+        currency: profile.currency,
+        exchangeRate,
+        notes: profile.notes,
+        userId: profile.userId,
+        customerId: profile.customerId,
+        recurringInvoiceId: profile.id,
+        items: {
+          create: items.map((item) => ({
+            description: item.description,
+            quantity: item.quantity,
+            price: item.price,
+            discountType: item.discountType,
+            discountValue: item.discountValue,
+            discount: item.discount,
+            amount: item.amount,
+            taxRate: item.taxRate,
+            taxExempt: item.taxExempt,
+            tax: item.tax,
+          })),
+        },
+      },
+      include: {
+        customer: true,
+        items: true,
+        user: {
+          select: businessSelect,
+        },
+      },
+    });
+
+    await recordInvoiceActivity(
+      invoice.id,
+      {
+        type: "CREATED",
+        author: SYSTEM,
+        details: { recurringInvoiceId: profile.id },
+      },
+      tx
+    );
+
+    return invoice;
+  });
+
+  if (invoice && profile.autoSend) {
+    let sent = true;
+
+    try {
+      await sendInvoiceEmail(invoice, await getInvoicePaymentOptions(invoice));
+    } catch (error) {
+      logger.error(
+        `Failed to send recurring invoice ${invoice.number}:`,
+        error
+      );
+      sent = false;
+    }
+
+    if (sent) {
+      await recordInvoiceActivity(invoice.id, {
+        type: "SENT",
+        author: SYSTEM,
+        details: { to: invoice.customer.email },
+      });
+    }
+
+    await prisma.invoiceReminder.create({
+      data: {
+        invoiceId: invoice.id,
+        type: "AUTOMATIC",
+        channel: "EMAIL",
+        status: sent ? "SENT" : "FAILED",
+        notes: sent
+          ? "Faktur berulang dikirim otomatis via email"
+          : "Gagal mengirim faktur berulang via email",
+      },
+    });
+  }
+
+  return invoice;
+}
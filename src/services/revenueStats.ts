@@ -0,0 +1,107 @@
+import { Prisma } from "@prisma/client";
+import { BASE_CURRENCY, toBaseCurrency } from "../utils/currency";
+import { money, Money, roundMoney } from "../utils/money";
+import { prisma } from "../utils/prisma";
+import { withBalances } from "./invoicePayment";
+
+export interface CurrencyTotals {
+  // Converted to IDR with each document's stored exchange rate
+  total: Money;
+  byCurrency: Record<string, Money>;
+}
+
+type TotalsGroup = {
+  currency: string;
+  exchangeRate: Money;
+  _sum: { total: Money | null };
+};
+
+function foldGroups(groups: TotalsGroup[]): CurrencyTotals {
+  const totals: CurrencyTotals = { total: money(0), byCurrency: {} };
+
+  for (const group of groups) {
+    const amount = money(group._sum.total);
+    totals.total = totals.total.plus(
+      roundMoney(toBaseCurrency(amount, group.exchangeRate), BASE_CURRENCY)
+    );
+    totals.byCurrency[group.currency] = amount.plus(
+      totals.byCurrency[group.currency] ?? 0
+    );
+  }
+
+  return totals;
+}
+
+// Sum payments received per currency and in IDR, each converted with its
+// invoice's stored rate
+export async function sumPaymentTotals(
+  where: Prisma.InvoicePaymentWhereInput
+): Promise<CurrencyTotals> {
+  const payments = await prisma.invoicePayment.findMany({
+    where,
+    select: {
+      amount: true,
+      invoice: {
+        select: { currency: true, exchangeRate: true },
+      },
+    },
+  });
+
+  return foldGroups(
+    payments.map((payment) => ({
+      currency: payment.invoice.currency,
+      exchangeRate: payment.invoice.exchangeRate,
+      _sum: { total: payment.amount },
+    }))
+  );
+}
+
+// Sum what was paid and what is still due on invoices, per currency and in
+// IDR
+export async function sumInvoiceBalances(
+  where: Prisma.InvoiceWhereInput
+): Promise<{ amountPaid: CurrencyTotals; balanceDue: CurrencyTotals }> {
+  const invoices = await withBalances(
+    await prisma.invoice.findMany({
+      where,
+      select: { id: true, total: true, currency: true, exchangeRate: true },
+    })
+  );
+  const fold = (amount: "amountPaid" | "balanceDue") =>
+    foldGroups(
+      invoices.map((invoice) => ({
+        currency: invoice.currency,
+        exchangeRate: invoice.exchangeRate,
+        _sum: { total: invoice[amount] },
+      }))
+    );
+
+  return { amountPaid: fold("amountPaid"), balanceDue: fold("balanceDue") };
+}
+
+// Sum credit note totals per currency and in IDR
+export async function sumCreditNoteTotals(
+  where: Prisma.CreditNoteWhereInput
+): Promise<CurrencyTotals> {
+  const groups = await prisma.creditNote.groupBy({
+    by: ["currency", "exchangeRate"],
+    where,
+    _sum: { total: true },
+  });
+
+  return foldGroups(groups);
+}
+
+// Subtract one set of totals from another, currency by currency
+export function subtractTotals(
+  totals: CurrencyTotals,
+  deductions: CurrencyTotals
+): CurrencyTotals {
+  const byCurrency = { ...totals.byCurrency };
+
+  for (const [currency, amount] of Object.entries(deductions.byCurrency)) {
+    byCurrency[currency] = money(byCurrency[currency]).minus(amount);
+  }
+
+  return { total: totals.total.minus(deductions.total), byCurrency };
+}
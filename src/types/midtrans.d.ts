@@ -1,5 +1,12 @@
 declare module 'midtrans-client' {
+  interface ApiConfig {
+    getSnapApiBaseUrl(): string;
+    getCoreApiBaseUrl(): string;
+  }
+
   export class Snap {
+    apiConfig: ApiConfig;
+
     constructor(options: {
       isProduction: boolean;
       serverKey: string;
@@ -29,6 +36,8 @@ declare module 'midtrans-client' {
   }
 
   export class CoreApi {
+    apiConfig: ApiConfig;
+
     constructor(options: {
       isProduction: boolean;
       serverKey: string;
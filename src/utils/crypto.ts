@@ -0,0 +1,50 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "crypto";
+
+// AES-256-GCM, the stored value is "iv.tag.ciphertext" in base64url
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+
+function encryptionKey(): Buffer {
+  return createHash("sha256")
+    .update(process.env.SETTINGS_ENCRYPTION_KEY || process.env.JWT_SECRET!)
+    .digest();
+}
+
+/**
+ * Encrypts a secret, e.g. a payment gateway key, before it is stored
+ * @param plaintext The secret to protect
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, encryptionKey(), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final(),
+  ]);
+
+  return [iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => part.toString("base64url"))
+    .join(".");
+}
+
+/**
+ * Decrypts a secret stored by encryptSecret
+ * @throws Error if the value was altered or encrypted with another key
+ */
+export function decryptSecret(stored: string): string {
+  const [iv, tag, ciphertext] = stored
+    .split(".")
+    .map((part) => Buffer.from(part, "base64url"));
+  const decipher = createDecipheriv(ALGORITHM, encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([
+    decipher.update(ciphertext),
+    decipher.final(),
+  ]).toString("utf8");
+}
@@ -0,0 +1,174 @@
+import { parseString } from "@fast-csv/parse";
+import { once } from "events";
+import { Writable } from "stream";
+
+export type Cell = string | number | null;
+
+// Writes spreadsheet rows to a stream, waiting when the stream is full
+export interface RowWriter {
+  write(row: Cell[]): Promise<void>;
+  end(): Promise<void>;
+}
+
+// Spreadsheets read text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMBER = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Keeps text such as a customer name from being run as a formula when the
+ * file is opened in a spreadsheet, by prefixing it with an apostrophe.
+ * Numbers, including negative ones written as text, are left as they are.
+ */
+export function escapeFormula(value: Cell): Cell {
+  return typeof value === "string" &&
+    FORMULA_PREFIX.test(value) &&
+    !NUMBER.test(value)
+    ? `'${value}`
+    : value;
+}
+
+// Quote a CSV field when it contains a separator, quote or line break
+function csvField(value: Cell): string {
+  if (value === null) {
+    return "";
+  }
+
+  const text = String(escapeFormula(value));
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Waits until a stream can take more data
+ * @throws Error if the stream closes first, e.g. the client disconnected
+ */
+async function drained(stream: Writable): Promise<void> {
+  const controller = new AbortController();
+  const { signal } = controller;
+
+  try {
+    const closed = await Promise.race([
+      once(stream, "drain", { signal }).then(() => false),
+      once(stream, "close", { signal }).then(() => true),
+    ]);
+
+    if (closed) {
+      throw new Error("Stream closed before the export finished");
+    }
+  } finally {
+    // Removes the listener that did not fire
+    controller.abort();
+  }
+}
+
+/**
+ * Fails when a stream can no longer be written to, so an export stops
+ * instead of reading the rest of its rows for nobody
+ */
+export function assertWritable(stream: Writable) {
+  if (stream.destroyed || stream.writableEnded) {
+    throw new Error("Stream closed before the export finished");
+  }
+}
+
+export function createCsvWriter(stream: Writable): RowWriter {
+  // The byte order mark makes Excel read the file as UTF-8
+  let pending = "\uFEFF";
+
+  return {
+    async write(row) {
+      assertWritable(stream);
+      const ok = stream.write(pending + row.map(csvField).join(",") + "\r\n");
+      pending = "";
+
+      if (!ok) {
+        await drained(stream);
+      }
+    },
+    async end() {
+      stream.end();
+    },
+  };
+}
+
+/**
+ * Parses CSV text into rows of trimmed fields. The delimiter is taken from
+ * the header line, because spreadsheets set to an Indonesian locale save
+ * with semicolons instead of commas.
+ * @param text The file contents, with or without a byte order mark
+ * @returns Every record including the header, blank lines removed
+ */
+export function parseCsv(text: string): Promise<string[][]> {
+  const content = text.replace(/^\uFEFF/, "");
+  const headerLine = content.slice(0, content.search(/\r?\n|$/));
+  const delimiter =
+    headerLine.split(";").length > headerLine.split(",").length ? ";" : ",";
+
+  return new Promise((resolve, reject) => {
+    const rows: string[][] = [];
+
+    parseString<string[], string[]>(content, { delimiter, trim: true })
+      .on("error", reject)
+      .on("data", (row: string[]) => {
+        if (row.some((field) => field !== "")) {
+          rows.push(row);
+        }
+      })
+      .on("end", () => resolve(rows));
+  });
+}
+
+export interface CsvColumnMap<F extends string> {
+  // Header used for each field found in the file
+  columns: Partial<Record<F, string>>;
+  // Headers that no field uses
+  ignored: string[];
+  // Headers named in the mapping that are not in the file
+  missing: string[];
+  // Value of a field in a row, empty if the file has no column for it
+  cell(row: string[], field: F): string;
+}
+
+/**
+ * Finds the column of each field in a CSV header. A field named in the
+ * mapping uses that header; otherwise the first header matching one of its
+ * aliases is used. Headers are compared case-insensitively.
+ * @param header The first row of the file
+ * @param aliases Lowercase header names recognised for each field
+ * @param mapping Header chosen by the user for a field
+ */
+export function mapCsvColumns<F extends string>(
+  header: string[],
+  aliases: Record<F, string[]>,
+  mapping: Partial<Record<F, string>> = {}
+): CsvColumnMap<F> {
+  const headers = header.map((name) => name.toLowerCase());
+  const positions = new Map<F, number>();
+  const columns: Partial<Record<F, string>> = {};
+  const missing: string[] = [];
+
+  for (const field of Object.keys(aliases) as F[]) {
+    const mapped = mapping[field];
+    const index = mapped
+      ? headers.indexOf(mapped.toLowerCase())
+      : headers.findIndex((name) => aliases[field].includes(name));
+
+    if (index >= 0) {
+      positions.set(field, index);
+      columns[field] = header[index];
+    } else if (mapped) {
+      missing.push(mapped);
+    }
+  }
+
+  const used = new Set(positions.values());
+
+  return {
+    columns,
+    ignored: header.filter((_, index) => !used.has(index)),
+    missing,
+    cell(row, field) {
+      const index = positions.get(field);
+      return index === undefined ? "" : row[index] ?? "";
+    },
+  };
+}
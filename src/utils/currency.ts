@@ -0,0 +1,35 @@
+import { money, Money, MoneyInput } from "./money";
+
+// Currency that stats are reported in and exchange rates convert to
+export const BASE_CURRENCY = "IDR";
+
+/**
+ * Checks whether the given string is an ISO 4217 currency code
+ * @param currency The code to check, e.g. "USD"
+ * @returns True if the code is well formed and known to the runtime
+ */
+export function isValidCurrency(currency: string): boolean {
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    return false;
+  }
+
+  try {
+    new Intl.NumberFormat("en-US", { style: "currency", currency });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Converts an amount to the base currency
+ * @param amount The amount in the document's currency
+ * @param exchangeRate IDR per unit of the document's currency
+ * @returns The amount in IDR
+ */
+export function toBaseCurrency(
+  amount: MoneyInput,
+  exchangeRate: MoneyInput
+): Money {
+  return money(amount).times(exchangeRate);
+}
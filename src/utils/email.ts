@@ -5,10 +5,21 @@ import {
   User,
   Customer,
   InvoiceStatus,
+  InvoicePayment,
+  CreditNote,
+  CreditNoteItem,
+  Quotation,
+  QuotationItem,
+  Prisma,
 } from "@prisma/client";
 import { format } from "date-fns";
 import { id } from "date-fns/locale";
+import { toBaseCurrency } from "./currency";
 import { logger } from "./logger";
+import { money, MoneyInput, sumMoney } from "./money";
+import { renderQrCode } from "./qris";
+import { shareableUrl } from "./storage";
+import { calendarDaysBetween, DEFAULT_TIMEZONE } from "./timezone";
 
 const transporter = nodemailer.createTransport({
   host: process.env.SMTP_HOST,
@@ -23,30 +34,51 @@ const transporter = nodemailer.createTransport({
   }
 });
 
+// How long files linked from an email, e.g. a payment proof, stay viewable
+const EMAIL_FILE_URL_EXPIRY_SECONDS = 30 * 24 * 60 * 60;
+
 export function formatDate(date: Date): string {
   return format(date, "dd MMMM yyyy", { locale: id });
 }
 
-export function formatRupiah(amount: number): string {
-  return new Intl.NumberFormat("id-ID").format(amount);
+export function formatRupiah(amount: MoneyInput): string {
+  return new Intl.NumberFormat("id-ID").format(Number(amount));
+}
+
+// Format an amount with its currency, e.g. "Rp 150.000" or "USD 1.250,50"
+export function formatMoney(amount: MoneyInput, currency: string = "IDR"): string {
+  if (currency === "IDR") {
+    return `Rp ${formatRupiah(amount)}`;
+  }
+
+  return `${currency} ${new Intl.NumberFormat("id-ID", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(Number(amount))}`;
 }
 
 function getStatusText(status: InvoiceStatus): string {
   const statusTexts: { [key in InvoiceStatus]: string } = {
+    DRAFT: "Draf",
     UNPAID: "Belum Dibayar",
+    PARTIALLY_PAID: "Dibayar Sebagian",
     PAID: "Lunas",
     OVERDUE: "Jatuh Tempo",
     CANCELLED: "Dibatalkan",
+    PENDING_VERIFICATION: "Menunggu Verifikasi",
   };
   return statusTexts[status];
 }
 
 function getStatusColor(status: InvoiceStatus): string {
   const colors: { [key in InvoiceStatus]: string } = {
+    DRAFT: "#BDBDBD",
     UNPAID: "#FFA726",
+    PARTIALLY_PAID: "#42A5F5",
     PAID: "#66BB6A",
     OVERDUE: "#EF5350",
     CANCELLED: "#9E9E9E",
+    PENDING_VERIFICATION: "#AB47BC",
   };
   return colors[status];
 }
@@ -57,8 +89,44 @@ type InvoiceWithItems = Invoice & {
   customer: Customer;
 };
 
+type CreditNoteWithItems = CreditNote & {
+  items: CreditNoteItem[];
+  invoice: Pick<Invoice, "number" | "date">;
+  user: InvoiceWithItems["user"];
+  customer: Customer;
+};
+
+type QuotationWithItems = Quotation & {
+  items: QuotationItem[];
+  user: InvoiceWithItems["user"];
+  customer: Customer;
+};
+
+// Ways for the customer to pay that are shown on an invoice
+export interface InvoicePaymentOptions {
+  // Link where the customer pays online
+  payUrl?: string | null;
+  // Dynamic QRIS payload with the amount due filled in
+  qris?: string | null;
+}
+
+// A stored file sent along with an email
+export interface EmailAttachment {
+  filename: string;
+  url: string;
+}
+
+// The QRIS code as an inline image attachment, referenced as cid:qris
+async function qrisAttachments(qris?: string | null) {
+  return qris
+    ? [{ filename: "qris.png", content: await renderQrCode(qris), cid: "qris" }]
+    : [];
+}
+
 export async function sendInvoiceEmail(
-  invoice: InvoiceWithItems
+  invoice: InvoiceWithItems,
+  { payUrl, qris }: InvoicePaymentOptions = {},
+  attachments: EmailAttachment[] = []
 ): Promise<void> {
   const {
     number,
@@ -66,8 +134,12 @@ export async function sendInvoiceEmail(
     dueDate,
     status,
     subtotal,
+    discount,
+    taxRate,
     tax,
     total,
+    currency,
+    exchangeRate,
     notes,
     paymentProof,
     user,
@@ -75,6 +147,12 @@ export async function sendInvoiceEmail(
     items,
   } = invoice;
 
+  // Only show the extra columns when a line actually uses them
+  const showDiscount = items.some((item) => item.discount.gt(0));
+  const showLineTax = items.some(
+    (item) => item.taxExempt || (item.taxRate !== null && item.taxRate !== taxRate)
+  );
+
   if (!customer.email) {
     logger.warn(
       `Cannot send invoice ${number} - customer has no email address`
@@ -342,9 +420,11 @@ export async function sendInvoiceEmail(
                     <table class="items-table">
                       <thead>
                         <tr>
-                          <th width="45%">Deskripsi</th>
-                          <th width="15%">Jumlah</th>
+                          <th>Deskripsi</th>
+                          <th width="10%">Jumlah</th>
                           <th width="20%">Harga</th>
+                          ${showDiscount ? '<th width="15%">Diskon</th>' : ''}
+                          ${showLineTax ? '<th width="10%">Pajak</th>' : ''}
                           <th width="20%" style="text-align: right;">Total</th>
                         </tr>
                       </thead>
@@ -353,8 +433,10 @@ export async function sendInvoiceEmail(
                           <tr>
                             <td>${item.description}</td>
                             <td>${item.quantity}</td>
-                            <td>${formatRupiah(item.price)}</td>
-                            <td style="text-align: right;">${formatRupiah(item.amount)}</td>
+                            <td>${formatMoney(item.price, currency)}</td>
+                            ${showDiscount ? `<td>${item.discount ? `-${formatMoney(item.discount, currency)}` : '-'}</td>` : ''}
+                            ${showLineTax ? `<td>${item.taxExempt ? 'Bebas Pajak' : `${item.taxRate ?? taxRate}%`}</td>` : ''}
+                            <td style="text-align: right;">${formatMoney(item.amount, currency)}</td>
                           </tr>
                         `).join('')}
                       </tbody>
@@ -364,19 +446,55 @@ export async function sendInvoiceEmail(
                     <table class="amount-table">
                       <tr class="amount-row">
                         <td class="amount-label">Subtotal</td>
-                        <td class="amount-value">${formatRupiah(subtotal)}</td>
+                        <td class="amount-value">${formatMoney(subtotal, currency)}</td>
                       </tr>
+                      ${discount.gt(0) ? `
+                        <tr class="amount-row">
+                          <td class="amount-label">Diskon</td>
+                          <td class="amount-value">-${formatMoney(discount, currency)}</td>
+                        </tr>
+                      ` : ''}
                       <tr class="amount-row">
                         <td class="amount-label">Pajak</td>
-                        <td class="amount-value">${formatRupiah(tax)}</td>
+                        <td class="amount-value">${formatMoney(tax, currency)}</td>
                       </tr>
                       <tr class="amount-row total-row">
                         <td class="amount-label">Total</td>
-                        <td class="amount-value">${formatRupiah(total)}</td>
+                        <td class="amount-value">${formatMoney(total, currency)}</td>
                       </tr>
+                      ${currency !== "IDR" ? `
+                        <tr class="amount-row">
+                          <td class="amount-label">Kurs (1 ${currency})</td>
+                          <td class="amount-value">${formatMoney(exchangeRate)}</td>
+                        </tr>
+                        <tr class="amount-row">
+                          <td class="amount-label">Setara</td>
+                          <td class="amount-value">${formatMoney(toBaseCurrency(total, exchangeRate))}</td>
+                        </tr>
+                      ` : ''}
                     </table>
                   </div>
 
+                  ${payUrl ? `
+                    <!-- Pay Online -->
+                    <div class="section" style="text-align: center;">
+                      <a href="${payUrl}" style="display: inline-block; padding: 14px 32px; background: #635BFF; color: white; text-decoration: none; border-radius: 8px; font-size: 16px; font-weight: 600;">
+                        Bayar Sekarang
+                      </a>
+                    </div>
+                  ` : ''}
+
+                  ${qris ? `
+                    <!-- QRIS -->
+                    <div class="section" style="text-align: center;">
+                      <div class="section-title">Bayar dengan QRIS</div>
+                      <img src="cid:qris" alt="QRIS" width="240" height="240">
+                      <p style="font-size: 13px; color: #425466; margin: 8px 0 0 0;">
+                        Pindai dengan aplikasi bank atau dompet digital, jumlah tagihan terisi otomatis.
+                      </p>
+                    </div>
+                  ` : ''}
+
                   ${notes ? `
                     <!-- Notes -->
                     <div class="notes">
@@ -389,7 +507,7 @@ export async function sendInvoiceEmail(
                     <!-- Payment Proof -->
                     <div class="section">
                       <div class="section-title">Bukti Pembayaran</div>
-                      <img src="${paymentProof}" alt="Bukti Pembayaran" style="max-width: 100%; border-radius: 12px; margin-top: 8px;">
+                      <img src="${shareableUrl(paymentProof, EMAIL_FILE_URL_EXPIRY_SECONDS)}" alt="Bukti Pembayaran" style="max-width: 100%; border-radius: 12px; margin-top: 8px;">
                     </div>
                   ` : ''}
                 </td>
@@ -423,6 +541,13 @@ export async function sendInvoiceEmail(
     to: customer.email,
     subject: `${status === 'PAID' ? '(LUNAS)' : ''} Faktur #${number}`,
     html,
+    attachments: [
+      ...(await qrisAttachments(qris)),
+      ...attachments.map(({ filename, url }) => ({
+        filename,
+        path: shareableUrl(url, EMAIL_FILE_URL_EXPIRY_SECONDS),
+      })),
+    ],
   };
 
   try {
@@ -434,13 +559,24 @@ export async function sendInvoiceEmail(
   }
 }
 
+/**
+ * Sends a payment reminder for an unpaid invoice
+ * @param timeZone The business's time zone, days overdue are counted in it
+ */
 export async function sendReminderEmail(
-  invoice: InvoiceWithItems
+  invoice: InvoiceWithItems & { payments?: Pick<InvoicePayment, "amount">[] },
+  { payUrl, qris }: InvoicePaymentOptions = {},
+  timeZone: string = DEFAULT_TIMEZONE
 ): Promise<void> {
   try {
     const businessName = invoice.user.businessName || invoice.user.businessName;
-    const daysOverdue = Math.floor(
-      (new Date().getTime() - invoice.dueDate.getTime()) / (1000 * 60 * 60 * 24)
+    const daysOverdue = calendarDaysBetween(
+      invoice.dueDate,
+      new Date(),
+      timeZone
+    );
+    const amountPaid = sumMoney(
+      (invoice.payments || []).map((payment) => payment.amount)
     );
 
     const html = `
@@ -475,14 +611,24 @@ export async function sendReminderEmail(
             ${
               daysOverdue > 0
                 ? `telah jatuh tempo ${daysOverdue} hari`
+                : daysOverdue < 0
+                ? `akan jatuh tempo dalam ${-daysOverdue} hari`
                 : "jatuh tempo hari ini"
             }.
           </p>
           
           <div style="background-color: #f8f9fa; border-radius: 8px; padding: 24px; margin: 32px 0;">
             <p style="font-size: 16px; color: #1a1a1a; margin: 8px 0;">
-              <strong>Total Tagihan:</strong> Rp ${formatRupiah(invoice.total)}
+              <strong>Total Tagihan:</strong> ${formatMoney(invoice.total, invoice.currency)}
             </p>
+            ${amountPaid.gt(0) ? `
+              <p style="font-size: 16px; color: #1a1a1a; margin: 8px 0;">
+                <strong>Sudah Dibayar:</strong> ${formatMoney(amountPaid, invoice.currency)}
+              </p>
+              <p style="font-size: 16px; color: #1a1a1a; margin: 8px 0;">
+                <strong>Sisa Tagihan:</strong> ${formatMoney(Prisma.Decimal.max(0, invoice.total.minus(amountPaid)), invoice.currency)}
+              </p>
+            ` : ''}
             <p style="font-size: 16px; color: #1a1a1a; margin: 8px 0;">
               <strong>Jatuh Tempo:</strong> ${formatDate(invoice.dueDate)}
             </p>
@@ -491,6 +637,26 @@ export async function sendReminderEmail(
           <p style="font-size: 16px; color: #1a1a1a; margin: 16px 0;">
             Mohon segera proses pembayaran Anda.
           </p>
+
+          ${payUrl ? `
+            <div style="text-align: center; margin: 32px 0;">
+              <a href="${payUrl}" style="display: inline-block; padding: 12px 24px; background: #1976d2; color: white; text-decoration: none; border-radius: 6px; font-size: 14px;">
+                Bayar Sekarang
+              </a>
+            </div>
+          ` : ''}
+
+          ${qris ? `
+            <div style="text-align: center; margin: 32px 0;">
+              <p style="font-size: 16px; color: #1a1a1a; margin: 0 0 16px 0;">
+                <strong>Bayar dengan QRIS</strong>
+              </p>
+              <img src="cid:qris" alt="QRIS" width="240" height="240">
+              <p style="font-size: 14px; color: #666; margin: 8px 0 0 0;">
+                Pindai dengan aplikasi bank atau dompet digital, jumlah tagihan terisi otomatis.
+              </p>
+            </div>
+          ` : ''}
           
           <p style="font-size: 16px; color: #1a1a1a; margin: 16px 0;">
             Hormat kami,<br>
@@ -512,6 +678,7 @@ export async function sendReminderEmail(
       to: invoice.customer.email!,
       subject: `Pengingat Pembayaran: Faktur ${invoice.number}`,
       html,
+      attachments: await qrisAttachments(qris),
     });
 
     logger.info(
@@ -531,6 +698,7 @@ export async function sendPaymentProofEmail(
     date,
     paymentProof,
     total,
+    currency,
     user,
     customer,
     notes,
@@ -567,7 +735,7 @@ export async function sendPaymentProofEmail(
 
         <div style="background-color: #f8f9fa; border-radius: 8px; padding: 24px; margin-bottom: 32px;">
           <p style="font-size: 16px; color: #1a1a1a; margin: 8px 0;">
-            <strong>Total Pembayaran:</strong> Rp ${formatRupiah(total)}
+            <strong>Total Pembayaran:</strong> ${formatMoney(total, currency)}
           </p>
           <p style="font-size: 16px; color: #1a1a1a; margin: 8px 0;">
             <strong>Tanggal Pembayaran:</strong> ${formatDate(date)}
@@ -590,7 +758,7 @@ export async function sendPaymentProofEmail(
           <p style="font-size: 16px; color: #1a1a1a; margin: 0 0 16px 0;">
             <strong>Bukti Pembayaran:</strong>
           </p>
-          <img src="${paymentProof}" alt="Bukti Pembayaran" style="max-width: 100%; border-radius: 8px;">
+          <img src="${shareableUrl(paymentProof, EMAIL_FILE_URL_EXPIRY_SECONDS)}" alt="Bukti Pembayaran" style="max-width: 100%; border-radius: 8px;">
         </div>
 
         <div style="text-align: center; padding-top: 40px; border-top: 1px solid #eee;">
@@ -610,3 +778,340 @@ export async function sendPaymentProofEmail(
     html,
   });
 }
+
+// Tell the customer why an uploaded payment proof was not accepted
+export async function sendPaymentProofRejectedEmail(
+  invoice: InvoiceWithItems,
+  reason: string,
+  shareUrl?: string
+): Promise<void> {
+  const { number: invoiceNumber, total, currency, user, customer } = invoice;
+
+  if (!customer.email) {
+    logger.warn(
+      `Cannot send payment proof rejection for invoice ${invoiceNumber} - customer has no email address`
+    );
+    throw new Error("Customer email is required to send payment proof rejection");
+  }
+
+  const businessName = user.businessName;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Bukti Pembayaran Ditolak: Faktur ${invoiceNumber}</title>
+      <style>
+        body { margin: 0; padding: 0; font-family: Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; }
+      </style>
+    </head>
+    <body>
+      <div style="max-width: 800px; margin: 0 auto; padding: 40px 24px; background: white;">
+        ${user.businessLogo ? `
+          <div style="text-align: center; margin-bottom: 24px;">
+            <img src="${user.businessLogo}" alt="${businessName}" style="max-width: 200px; max-height: 80px;">
+          </div>
+        ` : ''}
+
+        <h1 style="font-size: 24px; font-weight: 600; color: #1a1a1a; margin: 0 0 32px 0;">
+          Bukti Pembayaran Ditolak: Faktur ${invoiceNumber}
+        </h1>
+
+        <p style="font-size: 16px; color: #1a1a1a; margin: 16px 0;">
+          Yth. ${customer.name},
+        </p>
+
+        <p style="font-size: 16px; color: #1a1a1a; margin: 16px 0;">
+          Bukti pembayaran yang Anda kirim untuk faktur ${invoiceNumber} sebesar
+          ${formatMoney(total, currency)} belum dapat kami terima.
+        </p>
+
+        <div style="background-color: #f8f9fa; border-radius: 8px; padding: 24px; margin-bottom: 32px;">
+          <p style="font-size: 16px; color: #1a1a1a; margin: 0 0 8px 0;">
+            <strong>Alasan:</strong>
+          </p>
+          <p style="font-size: 14px; color: #666; margin: 0;">
+            ${reason}
+          </p>
+        </div>
+
+        ${shareUrl ? `
+          <div style="text-align: center; margin-bottom: 32px;">
+            <a href="${shareUrl}" style="display: inline-block; padding: 12px 24px; background: #1a1a1a; color: white; text-decoration: none; border-radius: 6px; font-size: 14px;">
+              Unggah Ulang Bukti Pembayaran
+            </a>
+          </div>
+        ` : ''}
+
+        <div style="text-align: center; padding-top: 40px; border-top: 1px solid #eee;">
+          <p style="font-size: 14px; color: #666; margin: 0;">
+            Email ini dikirim oleh ${businessName}
+          </p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  try {
+    await transporter.sendMail({
+      from: `"${businessName}" <${process.env.SMTP_USER}>`,
+      to: customer.email,
+      subject: `Bukti Pembayaran Ditolak: Faktur ${invoiceNumber}`,
+      html,
+    });
+    logger.info(`Payment proof rejection for invoice ${invoiceNumber} sent to ${customer.email}`);
+  } catch (error) {
+    logger.error('Error sending payment proof rejection email:', error);
+    throw error;
+  }
+}
+
+export async function sendCreditNoteEmail(
+  creditNote: CreditNoteWithItems,
+  pdfUrl?: string
+): Promise<void> {
+  const { number, date, reason, subtotal, tax, total, currency, items, user, customer, invoice } =
+    creditNote;
+
+  if (!customer.email) {
+    logger.warn(
+      `Cannot send credit note ${number} - customer has no email address`
+    );
+    throw new Error("Customer email is required to send credit note");
+  }
+
+  const businessName = user.businessName;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Nota Kredit ${number}</title>
+      <style>
+        body { margin: 0; padding: 0; font-family: Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; }
+      </style>
+    </head>
+    <body>
+      <div style="max-width: 800px; margin: 0 auto; padding: 40px 24px; background: white;">
+        ${user.businessLogo ? `
+          <div style="text-align: center; margin-bottom: 24px;">
+            <img src="${user.businessLogo}" alt="${businessName}" style="max-width: 200px; max-height: 80px;">
+          </div>
+        ` : ''}
+
+        <h1 style="font-size: 24px; font-weight: 600; color: #1a1a1a; margin: 0 0 32px 0;">
+          Nota Kredit ${number}
+        </h1>
+
+        <p style="font-size: 16px; color: #1a1a1a; margin: 16px 0;">
+          Yth. ${customer.name},
+        </p>
+
+        <p style="font-size: 16px; color: #1a1a1a; margin: 16px 0;">
+          Kami telah menerbitkan nota kredit atas faktur ${invoice.number}
+          tertanggal ${formatDate(invoice.date)}.
+        </p>
+
+        <table style="width: 100%; border-collapse: collapse; margin: 24px 0;">
+          <thead>
+            <tr>
+              <th style="text-align: left; padding: 12px; background: #f8f9fa; font-size: 13px;">Deskripsi</th>
+              <th style="text-align: left; padding: 12px; background: #f8f9fa; font-size: 13px;">Jumlah</th>
+              <th style="text-align: left; padding: 12px; background: #f8f9fa; font-size: 13px;">Harga</th>
+              <th style="text-align: right; padding: 12px; background: #f8f9fa; font-size: 13px;">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${items.map(item => `
+              <tr>
+                <td style="padding: 12px; border-bottom: 1px solid #eee; font-size: 14px;">${item.description}</td>
+                <td style="padding: 12px; border-bottom: 1px solid #eee; font-size: 14px;">${item.quantity}</td>
+                <td style="padding: 12px; border-bottom: 1px solid #eee; font-size: 14px;">${formatMoney(item.price, currency)}</td>
+                <td style="padding: 12px; border-bottom: 1px solid #eee; font-size: 14px; text-align: right;">${formatMoney(item.amount, currency)}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+
+        <div style="background-color: #f8f9fa; border-radius: 8px; padding: 24px; margin-bottom: 32px;">
+          <p style="font-size: 16px; color: #1a1a1a; margin: 8px 0;">
+            <strong>Subtotal:</strong> ${formatMoney(subtotal, currency)}
+          </p>
+          <p style="font-size: 16px; color: #1a1a1a; margin: 8px 0;">
+            <strong>Pajak:</strong> ${formatMoney(tax, currency)}
+          </p>
+          <p style="font-size: 16px; color: #1a1a1a; margin: 8px 0;">
+            <strong>Total Kredit:</strong> ${formatMoney(total, currency)}
+          </p>
+          <p style="font-size: 16px; color: #1a1a1a; margin: 8px 0;">
+            <strong>Tanggal:</strong> ${formatDate(date)}
+          </p>
+          ${reason ? `
+            <p style="font-size: 16px; color: #1a1a1a; margin: 16px 0 8px 0;">
+              <strong>Alasan:</strong>
+            </p>
+            <p style="font-size: 14px; color: #666; margin: 0;">
+              ${reason}
+            </p>
+          ` : ''}
+        </div>
+
+        <div style="text-align: center; padding-top: 40px; border-top: 1px solid #eee;">
+          <p style="font-size: 14px; color: #666; margin: 0;">
+            Email ini dikirim oleh ${businessName}
+          </p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  try {
+    await transporter.sendMail({
+      from: `"${businessName}" <${process.env.SMTP_USER}>`,
+      to: customer.email,
+      subject: `Nota Kredit ${number} untuk Faktur #${invoice.number}`,
+      html,
+      attachments: pdfUrl
+        ? [{ filename: `Nota-Kredit-${number}.pdf`, path: pdfUrl }]
+        : undefined,
+    });
+    logger.info(`Credit note ${number} sent to ${customer.email}`);
+  } catch (error) {
+    logger.error('Error sending credit note email:', error);
+    throw error;
+  }
+}
+
+export async function sendQuotationEmail(
+  quotation: QuotationWithItems,
+  pdfUrl?: string
+): Promise<void> {
+  const { number, date, validUntil, notes, subtotal, discount, tax, total, items, user, customer, publicToken } =
+    quotation;
+
+  if (!customer.email) {
+    logger.warn(
+      `Cannot send quotation ${number} - customer has no email address`
+    );
+    throw new Error("Customer email is required to send quotation");
+  }
+
+  const businessName = user.businessName;
+  const responseUrl = `${process.env.FRONTEND_URL}/quotations/${publicToken}`;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Penawaran ${number}</title>
+      <style>
+        body { margin: 0; padding: 0; font-family: Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; }
+      </style>
+    </head>
+    <body>
+      <div style="max-width: 800px; margin: 0 auto; padding: 40px 24px; background: white;">
+        ${user.businessLogo ? `
+          <div style="text-align: center; margin-bottom: 24px;">
+            <img src="${user.businessLogo}" alt="${businessName}" style="max-width: 200px; max-height: 80px;">
+          </div>
+        ` : ''}
+
+        <h1 style="font-size: 24px; font-weight: 600; color: #1a1a1a; margin: 0 0 32px 0;">
+          Penawaran ${number}
+        </h1>
+
+        <p style="font-size: 16px; color: #1a1a1a; margin: 16px 0;">
+          Yth. ${customer.name},
+        </p>
+
+        <p style="font-size: 16px; color: #1a1a1a; margin: 16px 0;">
+          Berikut kami sampaikan penawaran harga tertanggal ${formatDate(date)}.
+          Penawaran ini berlaku hingga ${formatDate(validUntil)}.
+        </p>
+
+        <table style="width: 100%; border-collapse: collapse; margin: 24px 0;">
+          <thead>
+            <tr>
+              <th style="text-align: left; padding: 12px; background: #f8f9fa; font-size: 13px;">Deskripsi</th>
+              <th style="text-align: left; padding: 12px; background: #f8f9fa; font-size: 13px;">Jumlah</th>
+              <th style="text-align: left; padding: 12px; background: #f8f9fa; font-size: 13px;">Harga</th>
+              <th style="text-align: right; padding: 12px; background: #f8f9fa; font-size: 13px;">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${items.map(item => `
+              <tr>
+                <td style="padding: 12px; border-bottom: 1px solid #eee; font-size: 14px;">${item.description}</td>
+                <td style="padding: 12px; border-bottom: 1px solid #eee; font-size: 14px;">${item.quantity}</td>
+                <td style="padding: 12px; border-bottom: 1px solid #eee; font-size: 14px;">${formatRupiah(item.price)}</td>
+                <td style="padding: 12px; border-bottom: 1px solid #eee; font-size: 14px; text-align: right;">${formatRupiah(item.amount)}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+
+        <div style="background-color: #f8f9fa; border-radius: 8px; padding: 24px; margin-bottom: 32px;">
+          <p style="font-size: 16px; color: #1a1a1a; margin: 8px 0;">
+            <strong>Subtotal:</strong> Rp ${formatRupiah(subtotal)}
+          </p>
+          ${money(discount).gt(0) ? `
+            <p style="font-size: 16px; color: #1a1a1a; margin: 8px 0;">
+              <strong>Diskon:</strong> -Rp ${formatRupiah(discount)}
+            </p>
+          ` : ''}
+          <p style="font-size: 16px; color: #1a1a1a; margin: 8px 0;">
+            <strong>Pajak:</strong> Rp ${formatRupiah(tax)}
+          </p>
+          <p style="font-size: 16px; color: #1a1a1a; margin: 8px 0;">
+            <strong>Total:</strong> Rp ${formatRupiah(total)}
+          </p>
+          ${notes ? `
+            <p style="font-size: 16px; color: #1a1a1a; margin: 16px 0 8px 0;">
+              <strong>Catatan:</strong>
+            </p>
+            <p style="font-size: 14px; color: #666; margin: 0;">
+              ${notes}
+            </p>
+          ` : ''}
+        </div>
+
+        <div style="text-align: center; margin-bottom: 32px;">
+          <a href="${responseUrl}" style="display: inline-block; padding: 12px 24px; background: #1a1a1a; color: white; text-decoration: none; border-radius: 6px; font-size: 14px;">
+            Terima atau Tolak Penawaran
+          </a>
+        </div>
+
+        <div style="text-align: center; padding-top: 40px; border-top: 1px solid #eee;">
+          <p style="font-size: 14px; color: #666; margin: 0;">
+            Email ini dikirim oleh ${businessName}
+          </p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  try {
+    await transporter.sendMail({
+      from: `"${businessName}" <${process.env.SMTP_USER}>`,
+      to: customer.email,
+      subject: `Penawaran ${number} dari ${businessName}`,
+      html,
+      attachments: pdfUrl
+        ? [{ filename: `Penawaran-${number}.pdf`, path: pdfUrl }]
+        : undefined,
+    });
+    logger.info(`Quotation ${number} sent to ${customer.email}`);
+  } catch (error) {
+    logger.error('Error sending quotation email:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,80 @@
+import { CoreApi, Snap } from "midtrans-client";
+import { PaymentStatus } from "@prisma/client";
+import crypto from "crypto";
+
+export interface MidtransKeys {
+  serverKey: string;
+  clientKey: string;
+  isProduction: boolean;
+}
+
+export interface MidtransNotification {
+  transaction_status: string;
+  order_id: string;
+  fraud_status?: string;
+  status_code: string;
+  gross_amount: string;
+  signature_key: string;
+}
+
+/**
+ * Creates the Snap and Core API clients for a merchant account.
+ * MIDTRANS_SNAP_URL and MIDTRANS_API_URL send the requests to another
+ * server instead, e.g. a local fake Midtrans during development.
+ */
+export function createMidtransClients(keys: MidtransKeys) {
+  const snap = new Snap(keys);
+  const coreApi = new CoreApi(keys);
+
+  if (process.env.MIDTRANS_SNAP_URL) {
+    snap.apiConfig.getSnapApiBaseUrl = () => process.env.MIDTRANS_SNAP_URL!;
+  }
+  if (process.env.MIDTRANS_API_URL) {
+    coreApi.apiConfig.getCoreApiBaseUrl = () => process.env.MIDTRANS_API_URL!;
+  }
+
+  return { snap, coreApi };
+}
+
+/**
+ * Checks the signature Midtrans puts on a payment notification
+ * @param serverKey Server key of the merchant the order belongs to
+ */
+export function verifyMidtransSignature(
+  notification: MidtransNotification,
+  serverKey: string
+): boolean {
+  const expectedSignature = crypto
+    .createHash("sha512")
+    .update(
+      `${notification.order_id}${notification.status_code}${notification.gross_amount}${serverKey}`
+    )
+    .digest("hex");
+
+  return notification.signature_key === expectedSignature;
+}
+
+/**
+ * Maps a Midtrans transaction status to our payment status
+ * @param fraudStatus Only set for card payments
+ */
+export function toPaymentStatus(
+  transactionStatus: string,
+  fraudStatus?: string
+): PaymentStatus {
+  switch (transactionStatus) {
+    case "capture":
+      return fraudStatus === "challenge"
+        ? "PENDING"
+        : fraudStatus === "accept"
+        ? "SUCCESS"
+        : "FAILED";
+    case "settlement":
+      return "SUCCESS";
+    case "pending":
+      return "PENDING";
+    default:
+      // deny, cancel, expire, failure and anything unknown
+      return "FAILED";
+  }
+}
@@ -0,0 +1,68 @@
+import { Prisma } from "@prisma/client";
+
+// Money is stored in DECIMAL(18,2) columns and handled as Decimal in code
+export type Money = Prisma.Decimal;
+export type MoneyInput = Prisma.Decimal | number | string;
+
+// Scale of the money columns, the most digits an amount can keep
+const MAX_MONEY_DECIMALS = 2;
+
+/**
+ * Wraps a value as an exact decimal
+ * @param value A Decimal, number or numeric string; null counts as zero
+ */
+export function money(value: MoneyInput | null | undefined): Money {
+  return new Prisma.Decimal(value ?? 0);
+}
+
+/**
+ * Number of minor-unit digits amounts in a currency are rounded to
+ * @param currency ISO 4217 code, e.g. "USD"
+ */
+export function currencyDecimals(currency: string): number {
+  try {
+    const { maximumFractionDigits } = new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+    }).resolvedOptions();
+
+    return Math.min(
+      maximumFractionDigits ?? MAX_MONEY_DECIMALS,
+      MAX_MONEY_DECIMALS
+    );
+  } catch {
+    return MAX_MONEY_DECIMALS;
+  }
+}
+
+/**
+ * Rounds an amount half up to the minor unit of its currency
+ * @param value The amount to round
+ * @param currency ISO 4217 code of the amount
+ */
+export function roundMoney(value: MoneyInput, currency: string): Money {
+  return money(value).toDecimalPlaces(
+    currencyDecimals(currency),
+    Prisma.Decimal.ROUND_HALF_UP
+  );
+}
+
+// Adds amounts without going through floating point
+export function sumMoney(values: (MoneyInput | null | undefined)[]): Money {
+  return values.reduce<Money>((sum, value) => sum.plus(money(value)), money(0));
+}
+
+// The given percentage of an amount, unrounded
+export function percentOf(amount: MoneyInput, rate: MoneyInput): Money {
+  return money(amount).times(rate).dividedBy(100);
+}
+
+/**
+ * JSON replacer that writes Decimal values as plain numbers so responses
+ * keep the shape clients already parse. Decimal.toJSON runs before the
+ * replacer, so the original value is read from the holder object.
+ */
+export function decimalReplacer(this: any, key: string, value: unknown) {
+  const original = this[key];
+  return Prisma.Decimal.isDecimal(original) ? original.toNumber() : value;
+}
@@ -1,75 +1,470 @@
+import { readFileSync } from "fs";
 import puppeteer from "puppeteer";
-import { Invoice, InvoiceItem, User, Customer } from "@prisma/client";
-import { formatDate, formatRupiah } from "./email";
-import { v2 as cloudinary } from "cloudinary";
-import { Readable } from "stream";
-
-// Configure Cloudinary
-cloudinary.config({
-  cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
-  api_key: process.env.CLOUDINARY_API_KEY,
-  api_secret: process.env.CLOUDINARY_API_SECRET,
-});
-
-type InvoiceWithItems = Invoice & {
-  items: InvoiceItem[];
-  user: Pick<User, "businessName" | "businessEmail" | "businessPhone" | "businessAddress" | "businessLogo">;
+import {
+  Invoice,
+  InvoiceItem,
+  PdfTemplate,
+  User,
+  Customer,
+  CreditNote,
+  CreditNoteItem,
+  Quotation,
+  QuotationItem,
+} from "@prisma/client";
+import { formatDate, formatMoney, InvoicePaymentOptions } from "./email";
+import { money, MoneyInput } from "./money";
+import { renderQrCode } from "./qris";
+import { shareableUrl, storage } from "./storage";
+
+type BusinessInfo = Pick<User, "businessName" | "businessEmail" | "businessPhone" | "businessAddress" | "businessLogo">;
+
+type CustomerInfo = Pick<Customer, "name" | "email" | "phone" | "address">;
+
+type PrintableItem = Pick<InvoiceItem, "description" | "quantity" | "price" | "amount"> &
+  Partial<Pick<InvoiceItem, "discount" | "taxRate" | "taxExempt">>;
+
+// What an invoice PDF shows, a saved invoice or the sample for previews
+export type PrintableInvoice = Pick<
+  Invoice,
+  "id" | "number" | "date" | "dueDate" | "subtotal" | "discount" | "taxRate" | "tax" | "total" | "currency" | "exchangeRate" | "notes"
+> & {
+  items: PrintableItem[];
+  user: BusinessInfo;
+  customer: CustomerInfo;
+};
+
+type CreditNoteWithItems = CreditNote & {
+  items: CreditNoteItem[];
+  invoice: Pick<Invoice, "number" | "date">;
+  user: BusinessInfo;
   customer: Customer;
 };
 
-// Helper function to upload buffer to Cloudinary
-async function uploadToCloudinary(
-  buffer: Buffer,
-  publicId: string
-): Promise<string> {
-  const folderPath = `fakturly/invoices`;
-
-  return new Promise((resolve, reject) => {
-    const uploadStream = cloudinary.uploader.upload_stream(
-      {
-        public_id: publicId,
-        folder: folderPath,
-        format: "pdf",
-        resource_type: "raw",
-      },
-      (error, result) => {
-        if (error) reject(error);
-        else resolve(result!.secure_url);
-      }
-    );
+type QuotationWithItems = Quotation & {
+  items: QuotationItem[];
+  user: BusinessInfo;
+  customer: Customer;
+};
+
+// Fonts a business can choose for its PDFs, web fonts are bundled from
+// @fontsource so rendering needs no network access
+export const PDF_FONTS = {
+  Arial: { family: "Arial, sans-serif" },
+  Georgia: { family: "Georgia, 'Times New Roman', serif" },
+  "Courier New": { family: "'Courier New', Courier, monospace" },
+  Inter: { family: "'Inter', Arial, sans-serif", bundled: "inter" },
+  Roboto: { family: "'Roboto', Arial, sans-serif", bundled: "roboto" },
+  "Open Sans": { family: "'Open Sans', Arial, sans-serif", bundled: "open-sans" },
+  Lato: { family: "'Lato', Arial, sans-serif", bundled: "lato" },
+  Merriweather: { family: "'Merriweather', Georgia, serif", bundled: "merriweather" },
+} satisfies Record<string, { family: string; bundled?: string }>;
+
+export type PdfFont = keyof typeof PDF_FONTS;
+
+export const PDF_FONT_NAMES = Object.keys(PDF_FONTS) as [PdfFont, ...PdfFont[]];
+
+const fontFaces = new Map<PdfFont, string>();
+
+// @font-face rules of a bundled font with the files inlined. Weights whose
+// file cannot be read are left out, the family falls back to a system font.
+function bundledFontFaces(name: PdfFont): string {
+  const font = PDF_FONTS[name];
+  const bundled = "bundled" in font ? font.bundled : null;
+  if (!bundled) {
+    return "";
+  }
+
+  let css = fontFaces.get(name);
+  if (css === undefined) {
+    css = [400, 700]
+      .map((weight) => {
+        try {
+          const file = require.resolve(
+            `@fontsource/${bundled}/files/${bundled}-latin-${weight}-normal.woff2`
+          );
+          const data = readFileSync(file).toString("base64");
+
+          return `@font-face { font-family: '${name}'; font-weight: ${weight}; src: url(data:font/woff2;base64,${data}) format('woff2'); }`;
+        } catch {
+          return "";
+        }
+      })
+      .join("\n");
+    fontFaces.set(name, css);
+  }
+
+  return css;
+}
+
+// Text from settings or user input is placed in the HTML as text only
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Parts of a PDF a business can leave out
+export const PDF_HIDEABLE_FIELDS = [
+  "logo",
+  "businessAddress",
+  "businessEmail",
+  "businessPhone",
+  "customerEmail",
+  "customerPhone",
+  "customerAddress",
+  "notes",
+  "paymentOptions",
+  "footer",
+] as const;
 
-    const readableStream = new Readable();
-    readableStream.push(buffer);
-    readableStream.push(null);
-    readableStream.pipe(uploadStream);
+export type PdfField = (typeof PDF_HIDEABLE_FIELDS)[number];
+
+// Layout and brand styling of a PDF
+export interface PdfStyle {
+  template: PdfTemplate;
+  // #RRGGBB
+  accentColor: string;
+  font: PdfFont;
+  // Replaces the default footer line
+  footerText?: string | null;
+  hiddenFields: PdfField[];
+}
+
+export const DEFAULT_PDF_STYLE: PdfStyle = {
+  template: "CLASSIC",
+  accentColor: "#635BFF",
+  font: "Arial",
+  footerText: null,
+  hiddenFields: [],
+};
+
+// Receipt printers use 80mm paper, 302px at the 96dpi Chromium renders with
+const THERMAL_WIDTH_PX = 302;
+
+// Fields shared by every printable document (invoice, credit note, ...)
+interface PrintableDocument {
+  title: string;
+  number: string;
+  details: { label: string; value: string }[];
+  subtotal: MoneyInput;
+  discount?: MoneyInput;
+  taxRate?: MoneyInput;
+  tax: MoneyInput;
+  total: MoneyInput;
+  currency?: string;
+  notes?: string | null;
+  notesLabel?: string;
+  // Link where the customer can pay online
+  payUrl?: string | null;
+  // QRIS code to scan and pay, as an image data URL
+  qrisImage?: string | null;
+  user: BusinessInfo;
+  customer: CustomerInfo;
+  items: PrintableItem[];
+}
+
+// Tax label for a line, e.g. "11%" or "Bebas Pajak"
+function formatLineTax(
+  item: PrintableDocument["items"][number],
+  defaultRate: MoneyInput
+): string {
+  if (item.taxExempt) {
+    return "Bebas Pajak";
+  }
+
+  return `${item.taxRate ?? defaultRate}%`;
+}
+
+// How long the link to a generated PDF works, it is opened or attached to an
+// email right away
+const PDF_URL_EXPIRY_SECONDS = 60 * 60;
+
+// Helper function to store a generated PDF, returning a link to it
+async function uploadPDF(buffer: Buffer, publicId: string): Promise<string> {
+  const { url } = await storage.put(buffer, {
+    folder: "fakturly/invoices",
+    name: publicId,
+    contentType: "application/pdf",
   });
+
+  return shareableUrl(url, PDF_URL_EXPIRY_SECONDS);
 }
 
-export async function generateInvoicePDF(
-  invoice: InvoiceWithItems
-): Promise<string> {
+// Styles of each template on top of the classic layout
+function templateCSS(template: PdfTemplate, accentColor: string): string {
+  switch (template) {
+    case "MODERN":
+      return `
+        body {
+          padding: 0;
+        }
+        .header {
+          background: ${accentColor};
+          color: #fff;
+          padding: 32px 40px;
+          margin-bottom: 32px;
+        }
+        .content {
+          padding: 0 40px 40px;
+        }
+        .invoice-title {
+          color: ${accentColor};
+          letter-spacing: 2px;
+        }
+        .table th {
+          background: ${accentColor};
+          color: #fff;
+        }
+        .table td {
+          border-bottom: none;
+        }
+        .table tbody tr:nth-child(even) td {
+          background: #f9fafb;
+        }
+        .summary {
+          background: none;
+          border: 2px solid ${accentColor};
+        }
+        .summary-row.total {
+          color: ${accentColor};
+          border-top-color: ${accentColor};
+        }
+      `;
+    case "COMPACT":
+      return `
+        body {
+          padding: 24px;
+          font-size: 11px;
+        }
+        .header,
+        .info-section {
+          margin-bottom: 16px;
+        }
+        .logo {
+          max-width: 100px;
+        }
+        .business-name {
+          font-size: 16px;
+          margin-bottom: 4px;
+        }
+        .invoice-title {
+          font-size: 18px;
+          margin-bottom: 16px;
+          border-bottom: 2px solid ${accentColor};
+          padding-bottom: 6px;
+        }
+        .table {
+          margin-bottom: 16px;
+        }
+        .table th,
+        .table td {
+          padding: 4px 6px;
+        }
+        .table th {
+          background: none;
+          border-bottom: 2px solid ${accentColor};
+        }
+        .summary {
+          width: 240px;
+          padding: 10px;
+        }
+        .summary-row {
+          margin-bottom: 4px;
+        }
+        .notes,
+        .pay-online,
+        .qris {
+          margin-top: 16px;
+        }
+        .qris img {
+          width: 140px;
+          height: 140px;
+        }
+        .footer {
+          margin-top: 24px;
+        }
+      `;
+    case "THERMAL":
+      return `
+        body {
+          width: ${THERMAL_WIDTH_PX}px;
+          padding: 8px;
+          box-sizing: border-box;
+          font-size: 11px;
+        }
+        .header,
+        .info-section {
+          display: block;
+          text-align: center;
+          margin-bottom: 12px;
+        }
+        .business-info,
+        .info-column.right {
+          text-align: center;
+        }
+        .info-column.right {
+          margin-top: 8px;
+        }
+        .logo {
+          max-width: 80px;
+        }
+        .business-name {
+          font-size: 14px;
+          margin-bottom: 2px;
+        }
+        .invoice-title {
+          font-size: 13px;
+          text-align: center;
+          margin-bottom: 12px;
+          padding: 4px 0;
+          border-top: 1px dashed #333;
+          border-bottom: 1px dashed #333;
+        }
+        .table {
+          margin-bottom: 8px;
+        }
+        .table td {
+          padding: 2px 0;
+          border-bottom: none;
+        }
+        .table .item-line td {
+          padding-bottom: 6px;
+        }
+        .summary {
+          width: auto;
+          padding: 8px 0 0;
+          background: none;
+          border-top: 1px dashed #333;
+          border-radius: 0;
+        }
+        .summary-row {
+          margin-bottom: 2px;
+        }
+        .summary-row.total {
+          font-size: 13px;
+          border-top: 1px dashed #333;
+        }
+        .notes,
+        .pay-online,
+        .qris {
+          margin-top: 12px;
+          text-align: center;
+        }
+        .pay-online {
+          padding: 0;
+          border: none;
+        }
+        .qris img {
+          width: 160px;
+          height: 160px;
+        }
+        .footer {
+          margin-top: 16px;
+          font-size: 10px;
+        }
+      `;
+    default:
+      return "";
+  }
+}
+
+function renderItemsTable(
+  document: PrintableDocument,
+  template: PdfTemplate
+): string {
+  const { items, taxRate = 0, currency = "IDR" } = document;
+
+  // A receipt is too narrow for columns, each line gets two rows instead
+  if (template === "THERMAL") {
+    return `
+      <table class="table">
+        <tbody>
+          ${items.map(item => `
+            <tr>
+              <td colspan="2">${item.description}</td>
+            </tr>
+            <tr class="item-line">
+              <td>${item.quantity} x ${formatMoney(item.price, currency)}${item.discount && money(item.discount).gt(0) ? ` (-${formatMoney(item.discount, currency)})` : ''}</td>
+              <td>${formatMoney(item.amount, currency)}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    `;
+  }
+
+  // Only show the extra columns when a line actually uses them
+  const showDiscount = items.some((item) => money(item.discount).gt(0));
+  const showLineTax = items.some(
+    (item) => item.taxExempt || (item.taxRate != null && !item.taxRate.equals(taxRate))
+  );
+
+  return `
+    <table class="table">
+      <thead>
+        <tr>
+          <th>Deskripsi</th>
+          <th style="width: 10%">Jumlah</th>
+          <th style="width: 15%">Harga</th>
+          ${showDiscount ? '<th style="width: 15%">Diskon</th>' : ''}
+          ${showLineTax ? '<th style="width: 10%">Pajak</th>' : ''}
+          <th style="width: 20%">Total</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${items.map(item => `
+          <tr>
+            <td>${item.description}</td>
+            <td>${item.quantity}</td>
+            <td>${formatMoney(item.price, currency)}</td>
+            ${showDiscount ? `<td>${item.discount ? `-${formatMoney(item.discount, currency)}` : '-'}</td>` : ''}
+            ${showLineTax ? `<td>${formatLineTax(item, taxRate)}</td>` : ''}
+            <td>${formatMoney(item.amount, currency)}</td>
+          </tr>
+        `).join('')}
+      </tbody>
+    </table>
+  `;
+}
+
+function renderDocumentHTML(
+  document: PrintableDocument,
+  style: PdfStyle = DEFAULT_PDF_STYLE
+): string {
   const {
+    title,
     number,
-    date,
-    dueDate,
+    details,
     subtotal,
+    discount = 0,
     tax,
     total,
+    currency = "IDR",
     notes,
+    notesLabel = "Catatan",
+    payUrl,
+    qrisImage,
     user,
     customer,
-    items,
-  } = invoice;
+  } = document;
+  const { template, accentColor } = style;
+  const fontName = style.font in PDF_FONTS ? style.font : DEFAULT_PDF_STYLE.font;
+  const font = PDF_FONTS[fontName];
+  const show = (field: PdfField) => !style.hiddenFields.includes(field);
 
-  const html = `
+  return `
     <!DOCTYPE html>
     <html>
     <head>
       <meta charset="utf-8">
-      <title>Faktur #${number}</title>
+      <title>${title} #${number}</title>
       <style>
+        ${bundledFontFaces(fontName)}
         body {
-          font-family: Arial, sans-serif;
+          font-family: ${font.family};
           margin: 0;
           padding: 40px;
           color: #333;
@@ -151,6 +546,25 @@ export async function generateInvoicePDF(
         .notes {
           margin-top: 40px;
         }
+        .pay-online {
+          margin-top: 40px;
+          padding: 20px;
+          border: 1px solid #e5e7eb;
+          border-radius: 4px;
+        }
+        .pay-online a {
+          color: ${accentColor};
+          word-break: break-all;
+        }
+        .qris {
+          margin-top: 40px;
+          text-align: center;
+          page-break-inside: avoid;
+        }
+        .qris img {
+          width: 200px;
+          height: 200px;
+        }
         .notes-label {
           font-weight: bold;
           margin-bottom: 10px;
@@ -160,90 +574,103 @@ export async function generateInvoicePDF(
           text-align: center;
           color: #6b7280;
           font-size: 12px;
+          white-space: pre-line;
         }
+        ${templateCSS(template, accentColor)}
       </style>
     </head>
     <body>
       <div class="header">
         <div>
-          ${user.businessLogo ? `<img src="${user.businessLogo}" class="logo" alt="Logo">` : ''}
+          ${user.businessLogo && show('logo') ? `<img src="${user.businessLogo}" class="logo" alt="Logo">` : ''}
         </div>
         <div class="business-info">
           <div class="business-name">${user.businessName}</div>
-          ${user.businessAddress ? `<div>${user.businessAddress}</div>` : ''}
-          ${user.businessEmail ? `<div>${user.businessEmail}</div>` : ''}
-          ${user.businessPhone ? `<div>${user.businessPhone}</div>` : ''}
+          ${user.businessAddress && show('businessAddress') ? `<div>${user.businessAddress}</div>` : ''}
+          ${user.businessEmail && show('businessEmail') ? `<div>${user.businessEmail}</div>` : ''}
+          ${user.businessPhone && show('businessPhone') ? `<div>${user.businessPhone}</div>` : ''}
         </div>
       </div>
 
-      <div class="invoice-title">FAKTUR #${number}</div>
+      <div class="content">
+        <div class="invoice-title">${title.toUpperCase()} #${number}</div>
 
-      <div class="info-section">
-        <div class="info-column">
-          <div class="info-label">Tanggal Faktur:</div>
-          <div>${formatDate(date)}</div>
-          <div class="info-label" style="margin-top: 15px">Jatuh Tempo:</div>
-          <div>${formatDate(dueDate)}</div>
+        <div class="info-section">
+          <div class="info-column">
+            ${details.map((detail, index) => `
+              <div class="info-label"${index > 0 ? ' style="margin-top: 15px"' : ''}>${detail.label}:</div>
+              <div>${detail.value}</div>
+            `).join('')}
+          </div>
+          <div class="info-column right">
+            <div class="info-label">Kepada:</div>
+            <div style="font-weight: bold">${customer.name}</div>
+            ${customer.email && show('customerEmail') ? `<div>${customer.email}</div>` : ''}
+            ${customer.phone && show('customerPhone') ? `<div>${customer.phone}</div>` : ''}
+            ${customer.address && show('customerAddress') ? `<div>${customer.address}</div>` : ''}
+          </div>
         </div>
-        <div class="info-column right">
-          <div class="info-label">Kepada:</div>
-          <div style="font-weight: bold">${customer.name}</div>
-          ${customer.email ? `<div>${customer.email}</div>` : ''}
-          ${customer.phone ? `<div>${customer.phone}</div>` : ''}
-          ${customer.address ? `<div>${customer.address}</div>` : ''}
-        </div>
-      </div>
 
-      <table class="table">
-        <thead>
-          <tr>
-            <th style="width: 50%">Deskripsi</th>
-            <th style="width: 15%">Jumlah</th>
-            <th style="width: 15%">Harga</th>
-            <th style="width: 20%">Total</th>
-          </tr>
-        </thead>
-        <tbody>
-          ${items.map(item => `
-            <tr>
-              <td>${item.description}</td>
-              <td>${item.quantity}</td>
-              <td>${formatRupiah(item.price)}</td>
-              <td>${formatRupiah(item.amount)}</td>
-            </tr>
-          `).join('')}
-        </tbody>
-      </table>
+        ${renderItemsTable(document, template)}
 
-      <div class="summary">
-        <div class="summary-row">
-          <div>Subtotal:</div>
-          <div>${formatRupiah(subtotal)}</div>
+        <div class="summary">
+          <div class="summary-row">
+            <div>Subtotal:</div>
+            <div>${formatMoney(subtotal, currency)}</div>
+          </div>
+          ${money(discount).gt(0) ? `
+            <div class="summary-row">
+              <div>Diskon:</div>
+              <div>-${formatMoney(discount, currency)}</div>
+            </div>
+          ` : ''}
+          <div class="summary-row">
+            <div>Pajak:</div>
+            <div>${formatMoney(tax, currency)}</div>
+          </div>
+          <div class="summary-row total">
+            <div>Total:</div>
+            <div>${formatMoney(total, currency)}</div>
+          </div>
         </div>
-        <div class="summary-row">
-          <div>Pajak:</div>
-          <div>${formatRupiah(tax)}</div>
-        </div>
-        <div class="summary-row total">
-          <div>Total:</div>
-          <div>${formatRupiah(total)}</div>
-        </div>
-      </div>
 
-      ${notes ? `
-        <div class="notes">
-          <div class="notes-label">Catatan:</div>
-          <div>${notes}</div>
-        </div>
-      ` : ''}
+        ${payUrl && show('paymentOptions') ? `
+          <div class="pay-online">
+            <div class="notes-label">Bayar Online:</div>
+            <a href="${payUrl}">${payUrl}</a>
+          </div>
+        ` : ''}
+
+        ${qrisImage && show('paymentOptions') ? `
+          <div class="qris">
+            <div class="notes-label">Bayar dengan QRIS:</div>
+            <img src="${qrisImage}" alt="QRIS">
+            <div>Pindai dengan aplikasi bank atau dompet digital, jumlah tagihan terisi otomatis.</div>
+          </div>
+        ` : ''}
+
+        ${notes && show('notes') ? `
+          <div class="notes">
+            <div class="notes-label">${notesLabel}:</div>
+            <div>${notes}</div>
+          </div>
+        ` : ''}
 
-      <div class="footer">
-        Dokumen ini dibuat otomatis oleh sistem Fakturly.
+        ${show('footer') ? `
+          <div class="footer">${style.footerText ? escapeHtml(style.footerText) : 'Dokumen ini dibuat otomatis oleh sistem Fakturly.'}</div>
+        ` : ''}
       </div>
     </body>
     </html>
   `;
+}
 
+// Render HTML to a PDF: A4, or for receipts 80mm wide and as long as the
+// content
+async function renderPDFBuffer(
+  html: string,
+  template: PdfTemplate = "CLASSIC"
+): Promise<Buffer> {
   // Launch browser
   const browser = await puppeteer.launch({
     headless: true,
@@ -254,29 +681,174 @@ export async function generateInvoicePDF(
     // Create new page
     const page = await browser.newPage();
 
+    if (template === "THERMAL") {
+      await page.setViewport({ width: THERMAL_WIDTH_PX, height: 800 });
+    }
+
     // Set content
     await page.setContent(html, {
       waitUntil: 'networkidle0'
     });
 
-    // Generate PDF
-    const pdfBuffer = await page.pdf({
-      format: 'A4',
-      printBackground: true,
-      margin: {
-        top: '0',
-        right: '0',
-        bottom: '0',
-        left: '0'
-      }
-    });
+    const margin = {
+      top: '0',
+      right: '0',
+      bottom: '0',
+      left: '0'
+    };
+
+    if (template === "THERMAL") {
+      const height = Number(
+        await page.evaluate("document.documentElement.scrollHeight")
+      );
 
-    // Upload to Cloudinary
-    const publicId = `invoice_${number}`;
-    const pdfUrl = await uploadToCloudinary(pdfBuffer as Buffer, publicId);
+      return Buffer.from(
+        await page.pdf({
+          width: `${THERMAL_WIDTH_PX}px`,
+          height: `${height + 1}px`,
+          printBackground: true,
+          margin
+        })
+      );
+    }
 
-    return pdfUrl;
+    // Generate PDF
+    return Buffer.from(
+      await page.pdf({
+        format: 'A4',
+        printBackground: true,
+        margin
+      })
+    );
   } finally {
     await browser.close();
   }
 }
+
+// Render HTML to a PDF and upload it, returning the file URL
+async function renderPDF(
+  html: string,
+  publicId: string,
+  template?: PdfTemplate
+): Promise<string> {
+  const pdfBuffer = await renderPDFBuffer(html, template);
+
+  return uploadPDF(pdfBuffer, publicId);
+}
+
+// The invoice as a printable document with its payment options
+async function toInvoiceHTML(
+  invoice: PrintableInvoice,
+  { payUrl, qris }: InvoicePaymentOptions,
+  style: PdfStyle
+): Promise<string> {
+  return renderDocumentHTML(
+    {
+      title: "Faktur",
+      // Drafts can be previewed before they get their number
+      number: invoice.number || "DRAF",
+      details: [
+        { label: "Tanggal Faktur", value: formatDate(invoice.date) },
+        { label: "Jatuh Tempo", value: formatDate(invoice.dueDate) },
+        ...(invoice.currency !== "IDR"
+          ? [
+              {
+                label: "Kurs",
+                value: `1 ${invoice.currency} = ${formatMoney(invoice.exchangeRate)}`,
+              },
+            ]
+          : []),
+      ],
+      subtotal: invoice.subtotal,
+      discount: invoice.discount,
+      taxRate: invoice.taxRate,
+      tax: invoice.tax,
+      total: invoice.total,
+      currency: invoice.currency,
+      notes: invoice.notes,
+      payUrl,
+      qrisImage: qris
+        ? `data:image/png;base64,${(await renderQrCode(qris)).toString("base64")}`
+        : null,
+      user: invoice.user,
+      customer: invoice.customer,
+      items: invoice.items,
+    },
+    style
+  );
+}
+
+/**
+ * Renders an invoice PDF without storing it, e.g. for previews
+ */
+export async function renderInvoicePDF(
+  invoice: PrintableInvoice,
+  options: InvoicePaymentOptions = {},
+  style: PdfStyle = DEFAULT_PDF_STYLE
+): Promise<Buffer> {
+  return renderPDFBuffer(
+    await toInvoiceHTML(invoice, options, style),
+    style.template
+  );
+}
+
+export async function generateInvoicePDF(
+  invoice: PrintableInvoice,
+  options: InvoicePaymentOptions = {},
+  style: PdfStyle = DEFAULT_PDF_STYLE
+): Promise<string> {
+  return renderPDF(
+    await toInvoiceHTML(invoice, options, style),
+    invoice.number ? `invoice_${invoice.number}` : `invoice_draft_${invoice.id}`,
+    style.template
+  );
+}
+
+export async function generateCreditNotePDF(
+  creditNote: CreditNoteWithItems
+): Promise<string> {
+  const html = renderDocumentHTML({
+    title: "Nota Kredit",
+    number: creditNote.number,
+    details: [
+      { label: "Tanggal Nota Kredit", value: formatDate(creditNote.date) },
+      { label: "Faktur Asal", value: `#${creditNote.invoice.number}` },
+      { label: "Tanggal Faktur", value: formatDate(creditNote.invoice.date) },
+    ],
+    subtotal: creditNote.subtotal,
+    tax: creditNote.tax,
+    total: creditNote.total,
+    currency: creditNote.currency,
+    notes: creditNote.reason,
+    notesLabel: "Alasan",
+    user: creditNote.user,
+    customer: creditNote.customer,
+    items: creditNote.items,
+  });
+
+  return renderPDF(html, `credit_note_${creditNote.number}`);
+}
+
+export async function generateQuotationPDF(
+  quotation: QuotationWithItems
+): Promise<string> {
+  const html = renderDocumentHTML({
+    title: "Penawaran",
+    number: quotation.number,
+    details: [
+      { label: "Tanggal Penawaran", value: formatDate(quotation.date) },
+      { label: "Berlaku Hingga", value: formatDate(quotation.validUntil) },
+    ],
+    subtotal: quotation.subtotal,
+    discount: quotation.discount,
+    taxRate: quotation.taxRate,
+    tax: quotation.tax,
+    total: quotation.total,
+    notes: quotation.notes,
+    user: quotation.user,
+    customer: quotation.customer,
+    items: quotation.items,
+  });
+
+  return renderPDF(html, `quotation_${quotation.number}`);
+}
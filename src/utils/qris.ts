@@ -0,0 +1,180 @@
+import { Prisma } from "@prisma/client";
+import jpeg from "jpeg-js";
+import jsQR from "jsqr";
+import { PNG } from "pngjs";
+import QRCode from "qrcode";
+import { money, MoneyInput } from "./money";
+
+// QRIS follows the EMV QR format: fields of a 2-digit id, a 2-digit length
+// and the value, ending with a CRC16 checksum in field 63
+interface QrisField {
+  id: string;
+  value: string;
+}
+
+const POINT_OF_INITIATION = "01";
+const MERCHANT_ACCOUNT_IDS = { min: 26, max: 51 };
+const CURRENCY = "53";
+const AMOUNT = "54";
+const CRC = "63";
+
+// Point of initiation of a code for a single payment, static codes use "11"
+const DYNAMIC_QR = "12";
+
+// ISO 4217 numeric code of the rupiah
+const RUPIAH = "360";
+
+// Reads the top-level fields of a payload, or null if it is malformed
+function parseFields(payload: string): QrisField[] | null {
+  const fields: QrisField[] = [];
+
+  for (let i = 0; i < payload.length; ) {
+    const id = payload.slice(i, i + 2);
+    const length = payload.slice(i + 2, i + 4);
+    const end = i + 4 + Number(length);
+
+    if (
+      !/^\d{2}$/.test(id) ||
+      !/^\d{2}$/.test(length) ||
+      end > payload.length
+    ) {
+      return null;
+    }
+
+    fields.push({ id, value: payload.slice(i + 4, end) });
+    i = end;
+  }
+
+  return fields;
+}
+
+function serializeFields(fields: QrisField[]): string {
+  return fields
+    .map(
+      ({ id, value }) => `${id}${String(value.length).padStart(2, "0")}${value}`
+    )
+    .join("");
+}
+
+/**
+ * CRC-16/CCITT-FALSE checksum as 4 uppercase hex digits, the checksum
+ * used by EMV QR codes
+ * @param data Everything before the checksum, including "6304"
+ */
+export function crc16(data: string): string {
+  let crc = 0xffff;
+
+  for (const byte of Buffer.from(data, "utf8")) {
+    crc ^= byte << 8;
+
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+
+  return crc.toString(16).toUpperCase().padStart(4, "0");
+}
+
+/**
+ * Checks a QRIS payload as read from a merchant's QR code
+ * @returns An error message, or null if the payload can be used
+ */
+export function validateQrisPayload(payload: string): string | null {
+  const fields = parseFields(payload);
+
+  if (!fields || fields[0]?.id !== "00") {
+    return "Data QRIS tidak valid";
+  }
+
+  const checksum = fields[fields.length - 1];
+  if (
+    checksum.id !== CRC ||
+    checksum.value.toUpperCase() !== crc16(payload.slice(0, -4))
+  ) {
+    return "Checksum QRIS tidak valid";
+  }
+
+  if (
+    !fields.some(
+      ({ id }) =>
+        Number(id) >= MERCHANT_ACCOUNT_IDS.min &&
+        Number(id) <= MERCHANT_ACCOUNT_IDS.max
+    )
+  ) {
+    return "Data merchant QRIS tidak ditemukan";
+  }
+
+  if (!fields.some(({ id, value }) => id === CURRENCY && value === RUPIAH)) {
+    return "QRIS harus menggunakan mata uang Rupiah";
+  }
+
+  if (
+    fields.some(
+      ({ id, value }) => id === POINT_OF_INITIATION && value === DYNAMIC_QR
+    )
+  ) {
+    return "Gunakan QRIS statis, bukan QRIS untuk satu transaksi";
+  }
+
+  return null;
+}
+
+/**
+ * Turns a static QRIS payload into a dynamic one for a fixed amount, so
+ * the customer's payment app fills in the amount when scanning
+ * @param payload A payload that passed validateQrisPayload
+ * @param amount Rupiah, rounded up to whole rupiah
+ */
+export function toDynamicQris(payload: string, amount: MoneyInput): string {
+  const fields = parseFields(payload)!.filter(
+    ({ id }) => id !== AMOUNT && id !== CRC
+  );
+
+  const pointOfInitiation = fields.find(({ id }) => id === POINT_OF_INITIATION);
+  if (pointOfInitiation) {
+    pointOfInitiation.value = DYNAMIC_QR;
+  } else {
+    fields.splice(1, 0, { id: POINT_OF_INITIATION, value: DYNAMIC_QR });
+  }
+
+  // Fields are ordered by id, the amount goes before the first higher one
+  const next = fields.findIndex(({ id }) => id > AMOUNT);
+  fields.splice(next === -1 ? fields.length : next, 0, {
+    id: AMOUNT,
+    value: money(amount).toDecimalPlaces(0, Prisma.Decimal.ROUND_UP).toFixed(0),
+  });
+
+  const body = `${serializeFields(fields)}${CRC}04`;
+  return `${body}${crc16(body)}`;
+}
+
+/**
+ * Reads the text of the QR code in a PNG or JPEG image
+ * @returns The decoded text, or null if no QR code was found
+ */
+export function readQrCode(image: Buffer, mimetype: string): string | null {
+  const { width, height, data } = /png/.test(mimetype)
+    ? PNG.sync.read(image)
+    : jpeg.decode(image, { useTArray: true });
+
+  const code = jsQR(
+    new Uint8ClampedArray(data.buffer, data.byteOffset, data.length),
+    width,
+    height
+  );
+
+  return code?.data || null;
+}
+
+/**
+ * Renders a QR code as a PNG image, locally without any external service
+ * @param text The content of the code
+ */
+export function renderQrCode(text: string): Promise<Buffer> {
+  return QRCode.toBuffer(text, {
+    errorCorrectionLevel: "M",
+    margin: 2,
+    width: 240,
+  });
+}
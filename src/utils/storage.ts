@@ -0,0 +1,301 @@
+import { v2 as cloudinary } from "cloudinary";
+import { createHmac, timingSafeEqual } from "crypto";
+import dotenv from "dotenv";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { AppError } from "../middleware/errorHandler";
+dotenv.config();
+
+export interface PutFileOptions {
+  // Folder the file is kept in, e.g. fakturly/invoices
+  folder: string;
+  // File name without extension, unique within the folder
+  name: string;
+  contentType: string;
+  // Images larger than this many pixels on a side are scaled down, by drivers
+  // that can
+  maxImageSize?: number;
+  tags?: string[];
+}
+
+export interface StoredFile {
+  // Identifies the file to the driver that stored it
+  key: string;
+  // Where the file is kept, it may need authentication to open, see
+  // shareableUrl
+  url: string;
+}
+
+/**
+ * Where uploaded files and generated PDFs are kept
+ */
+export interface FileStorage {
+  put(data: Buffer, options: PutFileOptions): Promise<StoredFile>;
+  /**
+   * @throws AppError 404 if there is no file with the key
+   */
+  get(key: string): Promise<{ data: Buffer; contentType: string }>;
+  delete(key: string): Promise<void>;
+  // A download URL that stops working after the given time
+  signedUrl(key: string, expiresInSeconds: number): string;
+  // The key of a file from its URL, null if the URL opens without
+  // authentication
+  keyFromUrl(url: string): string | null;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "application/pdf": "pdf",
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+function extensionOf(contentType: string): string {
+  return EXTENSIONS[contentType] || "bin";
+}
+
+function contentTypeOf(fileName: string): string {
+  const extension = path.extname(fileName).slice(1);
+  const contentType = Object.keys(EXTENSIONS).find(
+    (type) => EXTENSIONS[type] === extension
+  );
+
+  return contentType || "application/octet-stream";
+}
+
+type CloudinaryResourceType = "image" | "raw";
+
+// Keys are "<resource type>/<public id>", Cloudinary needs both to find a file
+function parseCloudinaryKey(key: string) {
+  const [resourceType, ...publicId] = key.split("/");
+  return {
+    resourceType: resourceType as CloudinaryResourceType,
+    publicId: publicId.join("/"),
+  };
+}
+
+function createCloudinaryStorage(): FileStorage {
+  cloudinary.config({
+    cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
+    api_key: process.env.CLOUDINARY_API_KEY,
+    api_secret: process.env.CLOUDINARY_API_SECRET,
+  });
+
+  return {
+    put(data, options) {
+      // Anything but images is kept as raw files so it is delivered unchanged,
+      // raw public ids carry their extension
+      const resourceType: CloudinaryResourceType =
+        options.contentType.startsWith("image/") ? "image" : "raw";
+      const publicId =
+        resourceType === "raw"
+          ? `${options.name}.${extensionOf(options.contentType)}`
+          : options.name;
+
+      return new Promise((resolve, reject) => {
+        const uploadStream = cloudinary.uploader.upload_stream(
+          {
+            public_id: publicId,
+            folder: options.folder,
+            resource_type: resourceType,
+            tags: options.tags,
+            transformation: options.maxImageSize
+              ? [
+                  {
+                    width: options.maxImageSize,
+                    height: options.maxImageSize,
+                    crop: "limit",
+                  },
+                  { quality: "auto" },
+                  { fetch_format: "auto" },
+                ]
+              : undefined,
+          },
+          (error, result) => {
+            if (error || !result) reject(error);
+            else
+              resolve({
+                key: `${resourceType}/${result.public_id}`,
+                url: result.secure_url,
+              });
+          }
+        );
+
+        Readable.from([data]).pipe(uploadStream);
+      });
+    },
+
+    async get(key) {
+      const { resourceType, publicId } = parseCloudinaryKey(key);
+      const response = await fetch(
+        cloudinary.url(publicId, { resource_type: resourceType, secure: true })
+      );
+
+      if (response.status === 404) {
+        throw new AppError(404, "File tidak ditemukan");
+      }
+      if (!response.ok) {
+        throw new Error(`Cloudinary responded with ${response.status}`);
+      }
+
+      return {
+        data: Buffer.from(await response.arrayBuffer()),
+        contentType:
+          response.headers.get("content-type") || contentTypeOf(publicId),
+      };
+    },
+
+    async delete(key) {
+      const { resourceType, publicId } = parseCloudinaryKey(key);
+      await cloudinary.uploader.destroy(publicId, {
+        resource_type: resourceType,
+        invalidate: true,
+      });
+    },
+
+    signedUrl(key, expiresInSeconds) {
+      const { resourceType, publicId } = parseCloudinaryKey(key);
+      return cloudinary.utils.private_download_url(publicId, "", {
+        resource_type: resourceType,
+        expires_at: Math.floor(Date.now() / 1000) + expiresInSeconds,
+      });
+    },
+
+    // Delivery URLs are public
+    keyFromUrl() {
+      return null;
+    },
+  };
+}
+
+// Files of the local driver are served to the business they belong to, or
+// through a link that expires for customers, email clients and the PDF
+// renderer
+function signFileKey(key: string, expires: number): string {
+  return createHmac("sha256", process.env.STORAGE_SIGNING_SECRET!)
+    .update(`${key}:${expires}`)
+    .digest("base64url");
+}
+
+/**
+ * Checks the signature of a download URL of the local driver
+ * @param expires Unix time in seconds the URL stops working
+ */
+export function verifyFileSignature(
+  key: string,
+  signature: string,
+  expires: number
+): boolean {
+  if (!(expires * 1000 > Date.now())) {
+    return false;
+  }
+
+  const expected = Buffer.from(signFileKey(key, expires));
+  const actual = Buffer.from(signature);
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function filesBaseUrl(): string {
+  const baseUrl =
+    process.env.API_URL || `http://localhost:${process.env.PORT || 3000}`;
+  return `${baseUrl}/files/`;
+}
+
+function createLocalStorage(): FileStorage {
+  const root = path.resolve(process.env.STORAGE_LOCAL_DIR || "storage");
+
+  if (!process.env.STORAGE_SIGNING_SECRET) {
+    throw new Error("STORAGE_SIGNING_SECRET is required for local storage");
+  }
+
+  // Keys are paths below the storage folder, never outside it
+  function filePath(key: string): string {
+    const resolved = path.resolve(root, key);
+    if (!resolved.startsWith(root + path.sep)) {
+      throw new AppError(404, "File tidak ditemukan");
+    }
+
+    return resolved;
+  }
+
+  return {
+    async put(data, options) {
+      const key = `${options.folder}/${options.name}.${extensionOf(
+        options.contentType
+      )}`;
+      const target = filePath(key);
+
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, data);
+
+      return { key, url: filesBaseUrl() + encodeURI(key) };
+    },
+
+    async get(key) {
+      try {
+        return {
+          data: await readFile(filePath(key)),
+          contentType: contentTypeOf(key),
+        };
+      } catch (error: any) {
+        if (error.code === "ENOENT") {
+          throw new AppError(404, "File tidak ditemukan");
+        }
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await rm(filePath(key), { force: true });
+    },
+
+    signedUrl(key, expiresInSeconds) {
+      const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+      const query = new URLSearchParams({
+        signature: signFileKey(key, expires),
+        expires: String(expires),
+      });
+
+      return `${filesBaseUrl()}${encodeURI(key)}?${query}`;
+    },
+
+    keyFromUrl(url) {
+      const baseUrl = filesBaseUrl();
+      return url.startsWith(baseUrl)
+        ? decodeURI(url.slice(baseUrl.length).split("?")[0])
+        : null;
+    },
+  };
+}
+
+/**
+ * The storage driver chosen by STORAGE_DRIVER: "cloudinary" (default) or
+ * "local" to keep files on disk in STORAGE_LOCAL_DIR, served by /files
+ */
+function createStorage(): FileStorage {
+  const driver = process.env.STORAGE_DRIVER || "cloudinary";
+
+  switch (driver) {
+    case "cloudinary":
+      return createCloudinaryStorage();
+    case "local":
+      return createLocalStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+  }
+}
+
+export const storage = createStorage();
+
+/**
+ * A URL of a stored file that opens without logging in, for customers,
+ * email clients and the PDF renderer. Files that need authentication get a
+ * signed link that expires, other URLs are returned unchanged.
+ * @param url The URL the file was stored with
+ */
+export function shareableUrl(url: string, expiresInSeconds: number): string {
+  const key = storage.keyFromUrl(url);
+  return key ? storage.signedUrl(key, expiresInSeconds) : url;
+}
@@ -0,0 +1,48 @@
+export const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || "Asia/Jakarta";
+
+/**
+ * Checks whether the given string is a valid IANA time zone
+ * @param timeZone The time zone to check, e.g. "Asia/Jakarta"
+ * @returns True if the runtime recognises the time zone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the calendar date of an instant as seen in a time zone
+ * @param date The instant to convert
+ * @param timeZone The IANA time zone to use
+ * @returns The date formatted as YYYY-MM-DD, safe for string comparison
+ */
+export function toDateKey(date: Date, timeZone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return date.toLocaleDateString("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  });
+}
+
+/**
+ * Counts the calendar days between two dates in a time zone
+ * @param from The start instant
+ * @param to The end instant
+ * @param timeZone The IANA time zone to use
+ * @returns Number of days, negative if `to` is before `from`
+ */
+export function calendarDaysBetween(
+  from: Date,
+  to: Date,
+  timeZone: string
+): number {
+  const fromDay = Date.parse(`${toDateKey(from, timeZone)}T00:00:00Z`);
+  const toDay = Date.parse(`${toDateKey(to, timeZone)}T00:00:00Z`);
+  return Math.round((toDay - fromDay) / (1000 * 60 * 60 * 24));
+}
@@ -0,0 +1,250 @@
+import { Request } from "express";
+import multer from "multer";
+import { AppError } from "../middleware/errorHandler";
+import { logger } from "./logger";
+import { PutFileOptions, storage } from "./storage";
+
+/**
+ * Multer storage engine that keeps uploads in the configured file storage.
+ * The uploaded file's path is its URL and its filename the storage key.
+ * @param options Where to keep each file, its content type is added
+ */
+function fileStorage(
+  options: (
+    req: Request,
+    file: Express.Multer.File
+  ) => Omit<PutFileOptions, "contentType">
+): multer.StorageEngine {
+  return {
+    _handleFile(req, file, cb) {
+      let fileOptions: Omit<PutFileOptions, "contentType">;
+      try {
+        fileOptions = options(req, file);
+      } catch (error) {
+        return cb(error);
+      }
+
+      const chunks: Buffer[] = [];
+
+      file.stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+      file.stream.on("error", cb);
+      file.stream.on("end", () => {
+        const data = Buffer.concat(chunks);
+
+        storage
+          .put(data, { ...fileOptions, contentType: file.mimetype })
+          .then(
+            ({ key, url }) =>
+              cb(null, { path: url, filename: key, size: data.length }),
+            cb
+          );
+      });
+    },
+    _removeFile(req, file, cb) {
+      storage.delete(file.filename).then(() => cb(null), cb);
+    },
+  };
+}
+
+// An invoice ID as a single folder name, route parameters are decoded so
+// they may contain slashes
+function invoiceFolder(invoiceId: unknown): string {
+  if (typeof invoiceId !== "string" || !/^[\w-]+$/.test(invoiceId)) {
+    throw new AppError(400, "ID faktur tidak valid");
+  }
+
+  return invoiceId;
+}
+
+/**
+ * Removes uploaded files from storage after the request that received them
+ * failed. Errors are only logged so the original failure is reported.
+ */
+export async function discardUploads(
+  files: (Express.Multer.File | undefined)[]
+) {
+  for (const file of files) {
+    if (!file) {
+      continue;
+    }
+
+    try {
+      await storage.delete(file.filename);
+    } catch (error) {
+      logger.error(`Error deleting upload ${file.filename}:`, error);
+    }
+  }
+}
+
+const paymentProofStorage = fileStorage((req) => {
+  const currentDate = new Date();
+  const year = currentDate.getFullYear();
+  const month = String(currentDate.getMonth() + 1).padStart(2, "0");
+
+  // Invoice ID checked or resolved from a public link before the upload
+  const invoiceId = invoiceFolder(req.res?.locals.invoiceId);
+
+  return {
+    // Create a structured folder path:
+    // fakturly/payment-proofs/YYYY/MM/invoice-id/
+    folder: `fakturly/payment-proofs/${year}/${month}/${invoiceId}`,
+    name: `proof-${Date.now()}`,
+    maxImageSize: 1000,
+    // Add tags for better organization
+    tags: [
+      "payment-proof",
+      `invoice-${invoiceId}`,
+      `year-${year}`,
+      `month-${month}`,
+    ],
+  };
+});
+
+// Upload handler for payment proof images
+export const paymentProofUpload = multer({
+  storage: paymentProofStorage,
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+  fileFilter: (req: Request, file: Express.Multer.File, cb: any) => {
+    const allowedTypes = /jpeg|jpg|png/;
+    const mimetype = allowedTypes.test(file.mimetype);
+
+    if (mimetype) {
+      cb(null, true);
+    } else {
+      cb(new Error("Hanya file gambar yang diperbolehkan (JPG, JPEG, PNG)"));
+    }
+  },
+});
+
+const logoStorage = fileStorage((req) => {
+  const currentDate = new Date();
+  const year = currentDate.getFullYear();
+  const month = String(currentDate.getMonth() + 1).padStart(2, "0");
+  const userId = (req as any).user.id;
+
+  return {
+    folder: `fakturly/settings/profile/${year}/${month}/${userId}`,
+    name: `logo-${Date.now()}`,
+    maxImageSize: 500,
+  };
+});
+
+// Upload handler for business logos
+export const logoUpload = multer({
+  storage: logoStorage,
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+  fileFilter: (req: Request, file: Express.Multer.File, cb: any) => {
+    if (/jpeg|jpg|png/.test(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new AppError(400, "Hanya file gambar yang diperbolehkan (JPG, PNG)"));
+    }
+  },
+});
+
+const ATTACHMENT_MIME_TYPES = /^(application\/pdf|image\/(jpeg|png|webp))$/;
+
+const invoiceAttachmentStorage = fileStorage((req) => {
+  const currentDate = new Date();
+  const year = currentDate.getFullYear();
+  const month = String(currentDate.getMonth() + 1).padStart(2, "0");
+  const invoiceId = invoiceFolder(req.params.id);
+
+  return {
+    // fakturly/invoice-attachments/YYYY/MM/invoice-id/
+    folder: `fakturly/invoice-attachments/${year}/${month}/${invoiceId}`,
+    name: `attachment-${Date.now()}-${Math.round(Math.random() * 1e6)}`,
+    tags: ["invoice-attachment", `invoice-${invoiceId}`],
+  };
+});
+
+// Upload handler for invoice attachments, PDFs and images
+export const invoiceAttachmentUpload = multer({
+  storage: invoiceAttachmentStorage,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+    files: 10,
+  },
+  fileFilter: (req: Request, file: Express.Multer.File, cb: any) => {
+    if (ATTACHMENT_MIME_TYPES.test(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(
+        new AppError(
+          400,
+          "Hanya file PDF atau gambar yang diperbolehkan (PDF, JPG, PNG, WEBP)"
+        )
+      );
+    }
+  },
+});
+
+// Upload handler for QR code images that are only read, they are kept in
+// memory and never stored
+export const qrImageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+  fileFilter: (req: Request, file: Express.Multer.File, cb: any) => {
+    if (/jpeg|jpg|png/.test(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new AppError(400, "Hanya file gambar yang diperbolehkan (JPG, PNG)"));
+    }
+  },
+});
+
+export type ImportFileFormat = "csv" | "vcf";
+
+const IMPORT_MIME_TYPES: Record<ImportFileFormat, RegExp> = {
+  csv: /csv|excel|text\/plain/,
+  vcf: /vcard/,
+};
+
+/**
+ * Upload handler for import files. They are kept in memory to be parsed and
+ * are never stored.
+ * @param formats File formats the import accepts
+ */
+export function importUpload(formats: ImportFileFormat[]) {
+  return multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: 5 * 1024 * 1024, // 5MB limit
+    },
+    fileFilter: (req: Request, file: Express.Multer.File, cb: any) => {
+      const allowed = formats.some(
+        (format) =>
+          IMPORT_MIME_TYPES[format].test(file.mimetype) ||
+          file.originalname.toLowerCase().endsWith(`.${format}`)
+      );
+
+      if (allowed) {
+        cb(null, true);
+      } else {
+        cb(
+          new AppError(
+            400,
+            `Hanya file ${formats
+              .map((format) => format.toUpperCase())
+              .join(" atau ")} yang diperbolehkan`
+          )
+        );
+      }
+    },
+  });
+}
+
+// Multipart fields arrive as text, objects are sent in them as JSON
+export function parseMultipartJson(val: unknown) {
+  try {
+    return typeof val === "string" ? JSON.parse(val) : val;
+  } catch {
+    return val;
+  }
+}
@@ -0,0 +1,86 @@
+export interface VCardContact {
+  name: string;
+  email: string;
+  phone: string;
+  address: string;
+  notes: string;
+}
+
+// Undo vCard escaping of commas, semicolons, backslashes and line breaks
+function unescapeValue(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, char: string) =>
+    char.toLowerCase() === "n" ? "\n" : char
+  );
+}
+
+// Split a structured value such as N or ADR on unescaped semicolons
+function splitComponents(value: string): string[] {
+  return value.split(/(?<!\\);/).map((part) => unescapeValue(part).trim());
+}
+
+/**
+ * Checks whether a file looks like vCard rather than CSV
+ * @param text The file contents
+ */
+export function isVCard(text: string): boolean {
+  return /^\s*BEGIN:VCARD/i.test(text.replace(/^\uFEFF/, ""));
+}
+
+/**
+ * Reads the contact fields of every card in a vCard file (versions 2.1, 3.0
+ * and 4.0). When a card has several emails, phone numbers or addresses the
+ * first one is used.
+ * @param text The file contents
+ * @returns One contact per card, in file order; missing fields are empty
+ */
+export function parseVCards(text: string): VCardContact[] {
+  // Long lines are folded by starting the continuation with a space or tab
+  const lines = text
+    .replace(/^\uFEFF/, "")
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/);
+  const contacts: VCardContact[] = [];
+  let card: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    const separator = line.indexOf(":");
+    if (separator < 0) {
+      continue;
+    }
+
+    // Drop the group ("item1.") and parameters (";TYPE=work")
+    const property = line
+      .slice(0, separator)
+      .split(";")[0]
+      .replace(/^.*\./, "")
+      .toUpperCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (property === "BEGIN" && value.toUpperCase() === "VCARD") {
+      card = {};
+    } else if (property === "END" && card) {
+      const [familyName = "", givenName = ""] = splitComponents(card.N ?? "");
+
+      contacts.push({
+        name:
+          unescapeValue(card.FN ?? "").trim() ||
+          [givenName, familyName].filter(Boolean).join(" ") ||
+          splitComponents(card.ORG ?? "")[0],
+        email: unescapeValue(card.EMAIL ?? "").trim(),
+        phone: unescapeValue(card.TEL ?? "")
+          .replace(/^tel:/i, "")
+          .trim(),
+        // PO box, extended address, street, city, region, postal code, country
+        address: splitComponents(card.ADR ?? "")
+          .filter(Boolean)
+          .join(", "),
+        notes: unescapeValue(card.NOTE ?? "").trim(),
+      });
+      card = null;
+    } else if (card && !(property in card)) {
+      card[property] = value;
+    }
+  }
+
+  return contacts;
+}